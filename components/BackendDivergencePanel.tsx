@@ -0,0 +1,111 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { energy } from '@/lib/physics/energy';
+import { wrapAngle } from '@/lib/physics/phaseSpace';
+import type { SimulationFeed } from '@/lib/simulationFeed';
+import LogDifferenceChart, { recordDifference, type DifferencePoint } from './LogDifferenceChart';
+import { useSampledReadout } from './useSampledReadout';
+
+interface BackendDivergencePanelProps {
+  feed: SimulationFeed;
+}
+
+interface DivergenceReadout {
+  dTheta1: number; // Rapier minus analytic (rad)
+  dTheta2: number;
+  dOmega1: number;
+  dOmega2: number;
+  analyticEnergy: number;
+  rapierEnergy: number;
+}
+
+// Differences below this are Rapier's single-precision floor, not divergence
+const FLOOR = 1e-7;
+const COLORS = ['#38bdf8', '#f97316'] as const;
+
+// How far the Rapier rigid-body backend has drifted from the analytic solver since they were
+// last synchronised, shown only while that backend runs, or why it is held off
+export default function BackendDivergencePanel({ feed }: BackendDivergencePanelProps) {
+  const pointsRef = useRef<DifferencePoint[]>([]);
+  const latestRef = useRef<DivergenceReadout | null>(null);
+  const [active, setActive] = useState(false);
+  const readout = useSampledReadout(latestRef, active);
+  const [block, setBlock] = useState(feed.rapierBlock);
+
+  useEffect(() => feed.onRapierBlockChange(setBlock), [feed]);
+
+  useEffect(() => {
+    const unsubscribe = feed.onComparison((comparison) => {
+      if (!comparison) {
+        pointsRef.current = [];
+        latestRef.current = null;
+        setActive(false);
+        return;
+      }
+      const { analytic, rapier, params } = comparison;
+      // Whole turns are kept on both sides, but a rod flipping over on one side and not the
+      // other is still only the wrapped difference away
+      const dTheta1 = wrapAngle(rapier.theta1 - analytic.theta1);
+      const dTheta2 = wrapAngle(rapier.theta2 - analytic.theta2);
+      recordDifference(pointsRef.current, analytic.t, dTheta1, dTheta2, FLOOR);
+
+      latestRef.current = {
+        dTheta1,
+        dTheta2,
+        dOmega1: rapier.omega1 - analytic.omega1,
+        dOmega2: rapier.omega2 - analytic.omega2,
+        analyticEnergy: energy(analytic, params).total,
+        rapierEnergy: energy(rapier, params).total,
+      };
+      setActive(true);
+    });
+    // Both backends restart from the same state on Reset
+    const unsubscribeReset = feed.onReset(() => {
+      pointsRef.current = [];
+    });
+    return () => {
+      unsubscribe();
+      unsubscribeReset();
+    };
+  }, [feed]);
+
+  if (block) {
+    return (
+      <div className="glass-container rounded-2xl px-4 py-3 text-white/90 text-xs w-[312px]">
+        <div className="font-semibold text-sm mb-2">Rapier vs Analytic</div>
+        <div className="rounded-lg bg-amber-500/20 px-2 py-1 text-amber-100">{block}</div>
+      </div>
+    );
+  }
+
+  if (!active) return null;
+
+  const energyGap = readout && readout.analyticEnergy !== 0
+    ? (readout.rapierEnergy - readout.analyticEnergy) / Math.abs(readout.analyticEnergy)
+    : null;
+
+  return (
+    <div className="glass-container rounded-2xl px-4 py-3 text-white/90 text-xs w-[312px]">
+      <div className="flex items-center justify-between mb-2">
+        <span className="font-semibold text-sm">Rapier vs Analytic</span>
+        <span className="text-white/60">log₁₀ |Δθ|</span>
+      </div>
+      <LogDifferenceChart
+        pointsRef={pointsRef}
+        floor={FLOOR}
+        colors={COLORS}
+        differences={readout ? [readout.dTheta1, readout.dTheta2] : null}
+      />
+      <div className="flex justify-between mt-1 tabular-nums">
+        <span>
+          Δω {readout ? `${readout.dOmega1.toFixed(3)} / ${readout.dOmega2.toFixed(3)}` : '—'} rad/s
+        </span>
+        <span>ΔE {energyGap !== null ? `${energyGap >= 0 ? '+' : ''}${(energyGap * 100).toFixed(3)}%` : '—'}</span>
+      </div>
+      <div className="mt-1 text-white/60">
+        Orange rods: Rapier revolute joints, same substeps. Reset re-synchronises both
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,195 @@
+'use client';
+
+import { useEffect, useRef, useState, type ComponentRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import { OrbitControls, OrthographicCamera, PerspectiveCamera } from '@react-three/drei';
+import { button, levaStore, useControls } from 'leva';
+import * as THREE from 'three';
+import {
+  BUILT_IN_VIEWS,
+  easeInOutCubic,
+  lerpVec3,
+  loadSavedViews,
+  saveSavedViews,
+  type CameraDirector,
+  type CameraProjection,
+  type CameraView,
+  type Vec3,
+} from '@/lib/cameraViews';
+
+type ViewMode = 'free' | 'positionFix';
+
+interface CameraControlsProps {
+  mode: ViewMode;
+  director: CameraDirector;
+  followTarget: THREE.Vector3; // Rod 2's tip, kept current by the pendulum
+}
+
+// Where the camera that is about to mount starts out
+interface CameraPose {
+  position: Vec3;
+  target: Vec3;
+  zoom: number; // Orthographic only
+}
+
+interface Transition {
+  fromPosition: Vec3;
+  fromTarget: Vec3;
+  view: CameraView;
+  elapsed: number;
+}
+
+const FOV = 60;
+// How quickly (1/s) the follow cam closes the gap to the tip; lower is lazier
+const FOLLOW_RATE = 4;
+
+type OrbitControlsImpl = ComponentRef<typeof OrbitControls>;
+
+const isOrthographic = (camera: THREE.Camera) => (camera as THREE.OrthographicCamera).isOrthographicCamera === true;
+
+// Camera, orbit controls and everything that moves them: eased transitions between views,
+// the orthographic front view, the follow cam, saved views and auto-orbit
+export default function CameraControls({ mode, director, followTarget }: CameraControlsProps) {
+  const getThree = useThree((state) => state.get);
+  const transitionRef = useRef<Transition | null>(null);
+  const [shift] = useState(() => new THREE.Vector3());
+  const [projection, setProjection] = useState<CameraProjection>('perspective');
+  const [pose, setPose] = useState<CameraPose>({
+    position: BUILT_IN_VIEWS.default.position,
+    target: BUILT_IN_VIEWS.default.target,
+    zoom: 1,
+  });
+  const [savedViews, setSavedViews] = useState<CameraView[]>(loadSavedViews);
+
+  const updateSavedViews = (views: CameraView[]) => {
+    saveSavedViews(views);
+    setSavedViews(views);
+  };
+
+  const views = [...Object.values(BUILT_IN_VIEWS), ...savedViews];
+  const isBuiltIn = (name: string) => Object.values(BUILT_IN_VIEWS).some((view) => view.name === name);
+  const selectedName = (): string => levaStore.get('Camera.view');
+
+  // Glide from wherever the camera is now. Moves always run in perspective; an orthographic
+  // view takes over once the camera arrives
+  const goTo = (view: CameraView) => {
+    const { camera, controls: defaultControls } = getThree();
+    const controls = defaultControls as OrbitControlsImpl | null;
+    if (!controls) return;
+    const position = camera.position.toArray() as Vec3;
+    const target = controls.target.toArray() as Vec3;
+    transitionRef.current = { fromPosition: position, fromTarget: target, view, elapsed: 0 };
+    if (isOrthographic(camera)) {
+      setPose({ position, target, zoom: 1 });
+      setProjection('perspective');
+    }
+  };
+
+  // The camera as it is now, under a name
+  const captureView = (name: string): CameraView | null => {
+    const { camera, controls: defaultControls } = getThree();
+    const controls = defaultControls as OrbitControlsImpl | null;
+    if (!controls) return null;
+    return {
+      name,
+      position: camera.position.toArray() as Vec3,
+      target: controls.target.toArray() as Vec3,
+      projection: isOrthographic(camera) ? 'orthographic' : 'perspective',
+    };
+  };
+
+  // Schema is rebuilt whenever the saved views change so the list stays current
+  const { followTip, autoOrbit, autoOrbitSpeed, transitionSeconds } = useControls('Camera', {
+    followTip: { value: false, label: '🎥 Follow Rod 2 Tip' },
+    autoOrbit: { value: false, label: '🔄 Auto-Orbit' },
+    autoOrbitSpeed: { value: 0.5, min: 0.1, max: 5, step: 0.1, label: 'Orbit Speed', render: (get) => get('Camera.autoOrbit') },
+    transitionSeconds: { value: 1, min: 0, max: 4, step: 0.1, label: 'Transition Time (s)' },
+    view: { value: views[0].name, options: views.map((v) => v.name), label: '📷 View' },
+    'Go to View': button(() => {
+      const view = [...Object.values(BUILT_IN_VIEWS), ...savedViews].find((v) => v.name === selectedName());
+      if (view) director.goTo(view);
+    }),
+    'Save Current View…': button(() => {
+      const name = window.prompt('View name')?.trim();
+      if (!name) return;
+      if (isBuiltIn(name)) {
+        window.alert(`"${name}" is a built-in view; choose another name.`);
+        return;
+      }
+      const view = captureView(name);
+      if (view) updateSavedViews([...savedViews.filter((v) => v.name !== name), view]);
+    }),
+    'Delete View': button(() => {
+      const current = selectedName();
+      if (isBuiltIn(current) || !window.confirm(`Delete view "${current}"?`)) return;
+      updateSavedViews(savedViews.filter((v) => v.name !== current));
+    }),
+  }, { collapsed: true }, [savedViews]);
+
+  // Buttons outside the Canvas ask for views through the director
+  const goToRef = useRef(goTo);
+  useEffect(() => {
+    goToRef.current = goTo;
+  });
+  useEffect(() => director.onGoTo((view) => goToRef.current(view)), [director]);
+
+  useFrame((state, delta) => {
+    const controls = state.controls as OrbitControlsImpl | null;
+    if (!controls) return;
+    const { camera } = state;
+
+    const transition = transitionRef.current;
+    if (transition) {
+      transition.elapsed += delta;
+      const t = transitionSeconds > 0 ? Math.min(transition.elapsed / transitionSeconds, 1) : 1;
+      const eased = easeInOutCubic(t);
+      camera.position.set(...lerpVec3(transition.fromPosition, transition.view.position, eased));
+      controls.target.set(...lerpVec3(transition.fromTarget, transition.view.target, eased));
+      controls.update();
+      if (t < 1) return;
+
+      transitionRef.current = null;
+      if (transition.view.projection === 'orthographic' && !isOrthographic(camera)) {
+        // Zoom the orthographic camera so the target plane keeps its on-screen size
+        const distance = camera.position.distanceTo(controls.target);
+        const visibleHeight = 2 * distance * Math.tan(((FOV / 2) * Math.PI) / 180);
+        setPose({ position: transition.view.position, target: transition.view.target, zoom: state.size.height / visibleHeight });
+        setProjection('orthographic');
+      }
+      return;
+    }
+
+    // Ease the orbit centre after the tip and carry the camera with it, so the framing holds
+    // while the user can still orbit and zoom around it
+    if (followTip) {
+      shift.copy(followTarget).sub(controls.target).multiplyScalar(1 - Math.exp(-FOLLOW_RATE * delta));
+      controls.target.add(shift);
+      camera.position.add(shift);
+      controls.update();
+    }
+  });
+
+  return (
+    <>
+      {/* Only one camera exists at a time; each starts where the last one left off */}
+      {projection === 'perspective' ? (
+        <PerspectiveCamera makeDefault position={pose.position} fov={FOV} />
+      ) : (
+        <OrthographicCamera makeDefault position={pose.position} zoom={pose.zoom} near={0.1} far={100} />
+      )}
+      <OrbitControls
+        makeDefault
+        target={pose.target}
+        enablePan={true}
+        enableZoom={true}
+        // The front view is a true 2D view, so it cannot be rotated out of the plane
+        enableRotate={mode === 'free' && projection === 'perspective'}
+        autoRotate={autoOrbit && projection === 'perspective'}
+        autoRotateSpeed={autoOrbitSpeed}
+        minDistance={3}
+        maxDistance={25}
+        maxPolarAngle={Math.PI / 2}
+      />
+    </>
+  );
+}
@@ -0,0 +1,193 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import type { RootState } from '@react-three/fiber';
+import {
+  captureOffline,
+  startLiveCapture,
+  type CaptureFormat,
+  type LiveCapture,
+  type Resolution,
+} from '@/lib/canvasCapture';
+import { downloadBlob, timestampedName } from '@/lib/download';
+import { RecordIcon, StopIcon } from './Icons';
+
+interface CaptureControlsProps {
+  getRoot: () => RootState | null;
+}
+
+const FORMATS: { id: CaptureFormat; label: string }[] = [
+  { id: 'webm', label: 'Live WebM video' },
+  { id: 'png', label: 'Offline PNG sequence (.zip)' },
+  { id: 'gif', label: 'Offline animated GIF' },
+];
+
+const RESOLUTIONS: { label: string; value: Resolution | null }[] = [
+  { label: 'Canvas size', value: null },
+  { label: '1280 × 720', value: { width: 1280, height: 720 } },
+  { label: '1920 × 1080', value: { width: 1920, height: 1080 } },
+  { label: '640 × 480', value: { width: 640, height: 480 } },
+];
+
+const FRAME_RATES = [24, 30, 60];
+const DURATIONS = [5, 10, 20, 30];
+
+const FILE_EXTENSIONS: Record<CaptureFormat, string> = { webm: 'webm', png: 'zip', gif: 'gif' };
+
+type CaptureStatus =
+  | { kind: 'idle' }
+  | { kind: 'live'; startedAt: number }
+  | { kind: 'offline'; progress: number };
+
+const glassButtonClass =
+  'glass-button w-14 h-14 rounded-full transition-all duration-300 flex items-center justify-center cursor-pointer hover:scale-110 active:scale-95 text-white/90 hover:text-white';
+const selectClass = 'bg-white/10 rounded-full px-2 py-1 cursor-pointer';
+
+// Record button for the glass control bar with a settings popover
+export default function CaptureControls({ getRoot }: CaptureControlsProps) {
+  const [open, setOpen] = useState(false);
+  const [format, setFormat] = useState<CaptureFormat>('webm');
+  const [resolutionIndex, setResolutionIndex] = useState(0);
+  const [fps, setFps] = useState(30);
+  const [duration, setDuration] = useState(10);
+  const [status, setStatus] = useState<CaptureStatus>({ kind: 'idle' });
+  const [elapsed, setElapsed] = useState(0);
+
+  const liveRef = useRef<LiveCapture | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Elapsed time readout while a live recording runs
+  useEffect(() => {
+    if (status.kind !== 'live') return;
+    const id = window.setInterval(() => setElapsed((performance.now() - status.startedAt) / 1000), 250);
+    return () => window.clearInterval(id);
+  }, [status]);
+
+  // Never leave a recording or a stopped render loop behind
+  useEffect(() => () => {
+    liveRef.current?.stop();
+    abortRef.current?.abort();
+  }, []);
+
+  const start = async () => {
+    const root = getRoot();
+    if (!root) return;
+    setOpen(false);
+    const options = { format, resolution: RESOLUTIONS[resolutionIndex].value, fps };
+
+    if (format === 'webm') {
+      liveRef.current = startLiveCapture(root, options);
+      setElapsed(0);
+      setStatus({ kind: 'live', startedAt: performance.now() });
+      return;
+    }
+
+    const abort = new AbortController();
+    abortRef.current = abort;
+    setStatus({ kind: 'offline', progress: 0 });
+    try {
+      const blob = await captureOffline(
+        root,
+        { ...options, duration },
+        (progress) => setStatus({ kind: 'offline', progress }),
+        abort.signal
+      );
+      if (blob) downloadBlob(timestampedName('pendulum', FILE_EXTENSIONS[format]), blob);
+    } finally {
+      abortRef.current = null;
+      setStatus({ kind: 'idle' });
+    }
+  };
+
+  const stopLive = async () => {
+    const live = liveRef.current;
+    liveRef.current = null;
+    setStatus({ kind: 'idle' });
+    if (live) downloadBlob(timestampedName('pendulum', 'webm'), await live.stop());
+  };
+
+  return (
+    <div className="relative">
+      {status.kind === 'live' ? (
+        <button
+          onClick={stopLive}
+          className={`${glassButtonClass} text-red-400 hover:text-red-300`}
+          title="Stop recording"
+          aria-label="Stop recording"
+        >
+          <StopIcon size={22} className="icon-glow" />
+        </button>
+      ) : (
+        <button
+          onClick={() => setOpen(!open)}
+          disabled={status.kind === 'offline'}
+          className={glassButtonClass}
+          title="Record"
+          aria-label="Record the 3D view"
+        >
+          <RecordIcon size={22} className="icon-glow" />
+        </button>
+      )}
+
+      {/* Live recording timer */}
+      {status.kind === 'live' && (
+        <span className="absolute -top-7 left-1/2 -translate-x-1/2 px-2 py-0.5 rounded-full bg-red-500/80 text-white text-xs font-semibold tabular-nums whitespace-nowrap">
+          ● {elapsed.toFixed(1)} s
+        </span>
+      )}
+
+      {/* Offline render progress */}
+      {status.kind === 'offline' && (
+        <div className="absolute bottom-full mb-4 left-1/2 -translate-x-1/2 glass-container rounded-2xl px-4 py-3 text-white/90 text-xs w-[220px]">
+          <div className="flex items-center justify-between mb-2">
+            <span className="font-semibold">Rendering frames</span>
+            <span className="tabular-nums">{Math.round(status.progress * 100)}%</span>
+          </div>
+          <div className="h-1.5 rounded-full bg-white/10 overflow-hidden mb-2">
+            <div className="h-full bg-white/80" style={{ width: `${status.progress * 100}%` }} />
+          </div>
+          <button
+            onClick={() => abortRef.current?.abort()}
+            className="px-2.5 py-0.5 rounded-full bg-white/10 hover:bg-white/20 transition-all duration-200 cursor-pointer"
+          >
+            Cancel
+          </button>
+        </div>
+      )}
+
+      {/* Capture settings */}
+      {open && status.kind === 'idle' && (
+        <div className="absolute bottom-full mb-4 left-1/2 -translate-x-1/2 glass-container rounded-2xl px-4 py-3 text-white/90 text-xs w-[260px] flex flex-col gap-2">
+          <span className="font-semibold text-sm">Record</span>
+          <select value={format} onChange={(e) => setFormat(e.target.value as CaptureFormat)} className={selectClass}>
+            {FORMATS.map(({ id, label }) => <option key={id} value={id}>{label}</option>)}
+          </select>
+          <div className="grid grid-cols-2 gap-1.5">
+            <select value={resolutionIndex} onChange={(e) => setResolutionIndex(Number(e.target.value))} className={selectClass}>
+              {RESOLUTIONS.map(({ label }, index) => <option key={label} value={index}>{label}</option>)}
+            </select>
+            <select value={fps} onChange={(e) => setFps(Number(e.target.value))} className={selectClass}>
+              {FRAME_RATES.map((rate) => <option key={rate} value={rate}>{rate} fps</option>)}
+            </select>
+          </div>
+          {format !== 'webm' && (
+            <>
+              <select value={duration} onChange={(e) => setDuration(Number(e.target.value))} className={selectClass}>
+                {DURATIONS.map((d) => <option key={d} value={d}>{d} s ({d * fps} frames)</option>)}
+              </select>
+              <span className="text-white/60">
+                Steps the simulation by exactly 1/{fps} s per frame, however long each frame takes to render.
+              </span>
+            </>
+          )}
+          <button
+            onClick={start}
+            className="px-2.5 py-1 rounded-full bg-red-500/70 hover:bg-red-500/90 transition-all duration-200 cursor-pointer font-semibold"
+          >
+            {format === 'webm' ? 'Start recording' : 'Render'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
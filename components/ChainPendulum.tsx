@@ -0,0 +1,133 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { button, useControls } from 'leva';
+import * as THREE from 'three';
+import { planSubsteps, type FrameStepperConfig } from '@/lib/physics/engine';
+import { placeChain, stepChain, type ChainLink, type ChainParams, type ChainState } from '@/lib/physics/chain';
+import type { DynamicsModel } from '@/lib/physics/model';
+import type { Point2 } from '@/lib/physics/kinematics';
+import type { SimulationFeed } from '@/lib/simulationFeed';
+import { SILVER_MATERIAL } from './materials';
+import { useRestartingState } from './useRestartingState';
+
+interface ChainPendulumProps {
+  feed: SimulationFeed;
+  apex: Point2;
+  model: DynamicsModel;
+  gravity: number;
+  simulationSpeed: number;
+  stepConfig: FrameStepperConfig;
+  rodThickness: number;
+  radialSegments: number;
+  zDisplacement: number; // Depth of the first link; the rest step forward so they never intersect
+}
+
+const MIN_LINKS = 2;
+const MAX_LINKS = 8;
+const LINK_Z_SPACING = 0.07;
+const DEG_TO_RAD = Math.PI / 180;
+
+// Sliders for one link; later links start shorter and hanging straight down. Every link up to
+// MAX_LINKS is registered and only hidden past the link count, so saved settings cover them all
+function linkSchema(index: number) {
+  const n = index + 1;
+  const shown = (get: (path: string) => unknown) => (get('Chain.linkCount') as number) >= n;
+  return {
+    [`link${n}Length`]: { value: index === 0 ? 1.2 : 0.9, min: 0.2, max: 3, step: 0.05, label: `Link ${n} Length`, render: shown },
+    [`link${n}Mass`]: { value: 5, min: 0.1, max: 20, step: 0.1, label: `Link ${n} Mass`, render: shown },
+    // The ideal model hangs each rod from its top end
+    [`link${n}PivotOffset`]: {
+      value: 0,
+      min: -1,
+      max: 1,
+      step: 0.01,
+      label: `Link ${n} Pivot Offset`,
+      render: (get: (path: string) => unknown) => shown(get) && get('Pendulum Settings.dynamicsModel') !== 'ideal',
+    },
+    [`link${n}InitialAngleDeg`]: { value: index === 0 ? 120 : 0, min: -360, max: 360, step: 0.1, label: `Link ${n} Initial Angle (deg)`, render: shown },
+  };
+}
+
+function initialChainState(angles: number[]): ChainState {
+  return { t: 0, theta: angles.map((deg) => deg * DEG_TO_RAD), omega: angles.map(() => 0) };
+}
+
+// N-link planar chain: links come from an array built from the Chain folder of the panel
+export default function ChainPendulum({
+  feed,
+  apex,
+  model,
+  gravity,
+  simulationSpeed,
+  stepConfig,
+  rodThickness,
+  radialSegments,
+  zDisplacement,
+}: ChainPendulumProps) {
+  const [resetCount, setResetCount] = useState(0);
+
+  const values = useControls('Chain', {
+    linkCount: { value: 3, min: MIN_LINKS, max: MAX_LINKS, step: 1, label: 'Links' },
+    chainJointDamping: { value: 0, min: 0, max: 2, step: 0.01, label: 'Joint Damping' },
+    ...Object.assign({}, ...Array.from({ length: MAX_LINKS }, (_, i) => linkSchema(i))),
+    'Reset Chain': button(() => setResetCount((count) => count + 1)),
+  }, { collapsed: true }) as Record<string, number>;
+
+  const linkCount = values.linkCount;
+  const links: ChainLink[] = Array.from({ length: linkCount }, (_, i) => ({
+    length: values[`link${i + 1}Length`] ?? 1,
+    mass: values[`link${i + 1}Mass`] ?? 5,
+    pivotOffset: values[`link${i + 1}PivotOffset`] ?? 0,
+  }));
+  const initialAngles = Array.from({ length: linkCount }, (_, i) => values[`link${i + 1}InitialAngleDeg`] ?? 0);
+  const chainParams: ChainParams = { model, gravity, links, jointDamping: values.chainJointDamping };
+
+  const groupRefs = useRef<(THREE.Group | null)[]>([]);
+
+  // Start over when links are added or removed, an initial angle changes or Reset Chain is pressed
+  const { stateRef, accumulatorRef } = useRestartingState(
+    feed,
+    `${initialAngles.join(',')}/${resetCount}`,
+    () => initialChainState(initialAngles)
+  );
+
+  useFrame((_state, delta) => {
+    const current = stateRef.current;
+    if (current.theta.length !== links.length) return; // Waiting for the reset after a link change
+
+    // Same fixed-step accumulator as the double pendulum
+    const plan = planSubsteps(Math.min(delta, 0.1) * simulationSpeed, accumulatorRef.current, stepConfig);
+    let next = current;
+    for (let i = 0; i < plan.substeps; i++) next = stepChain(next, chainParams, stepConfig.fixedDt);
+    stateRef.current = next;
+    accumulatorRef.current = plan.accumulator;
+
+    placeChain(next.theta, chainParams, apex).forEach(({ top, tip }, i) => {
+      const group = groupRefs.current[i];
+      if (!group) return;
+      group.position.set((top.x + tip.x) / 2, (top.y + tip.y) / 2, zDisplacement + i * LINK_Z_SPACING);
+      group.rotation.z = next.theta[i];
+    });
+  });
+
+  return (
+    <group>
+      {links.map((link, i) => (
+        <group
+          key={i}
+          ref={(group) => {
+            groupRefs.current[i] = group;
+          }}
+        >
+          <mesh castShadow receiveShadow>
+            {/* Each link a little thinner than the one it hangs from */}
+            <cylinderGeometry args={[rodThickness * Math.pow(0.9, i), rodThickness * Math.pow(0.9, i), link.length, radialSegments]} />
+            <meshStandardMaterial {...SILVER_MATERIAL} />
+          </mesh>
+        </group>
+      ))}
+    </group>
+  );
+}
@@ -0,0 +1,227 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { levaStore, useControls } from 'leva';
+import { createInitialState } from '@/lib/physics/engine';
+import { cellAngles, type ChaosMapConfig, type ChaosMetric } from '@/lib/physics/chaosMap';
+import type { PendulumParams } from '@/lib/physics/types';
+import type { ChaosMapRequest, ChaosMapResponse } from '@/lib/chaosMap.worker';
+import type { SimulationFeed } from '@/lib/simulationFeed';
+
+interface ChaosMapPanelProps {
+  feed: SimulationFeed;
+}
+
+const MAP_SIZE = 280;
+const MAP_DT = 0.01;
+
+const METRICS: { id: ChaosMetric; label: string }[] = [
+  { id: 'flipTime', label: 'Time to flip' },
+  { id: 'lyapunov', label: 'Lyapunov λ' },
+];
+const RESOLUTIONS = [16, 32, 64, 96];
+const DURATIONS = [10, 20, 40];
+// Initial angle ranges in degrees; ±360 matches the full initial angle sliders
+const RANGES = [180, 360];
+
+// Map a metric value to a colour: fast flips and large exponents are bright, calm cells dark
+function cellColor(metric: ChaosMetric, value: number, maxTime: number, maxLyapunov: number): [number, number, number] {
+  let intensity: number;
+  if (metric === 'flipTime') {
+    if (!Number.isFinite(value)) return [0, 0, 0];
+    intensity = 1 - Math.log1p(value) / Math.log1p(maxTime);
+  } else {
+    intensity = maxLyapunov > 0 ? Math.max(0, value) / maxLyapunov : 0;
+  }
+  // Dark purple through orange to pale yellow
+  const r = Math.round(255 * Math.min(1, intensity * 1.6));
+  const g = Math.round(255 * Math.max(0, intensity * 1.4 - 0.4));
+  const b = Math.round(255 * (0.35 + 0.4 * intensity - 0.5 * intensity * intensity));
+  return [r, g, Math.max(0, b)];
+}
+
+// θ1 × θ2 sweep of initial conditions computed in a Web Worker; click a cell to load it
+export default function ChaosMapPanel({ feed }: ChaosMapPanelProps) {
+  const { showChaosMap } = useControls('Diagnostics', {
+    showChaosMap: { value: false, label: '🗺️ Chaos Map' },
+  }, { collapsed: true });
+
+  const [metric, setMetric] = useState<ChaosMetric>('flipTime');
+  const [resolution, setResolution] = useState(32);
+  const [maxTime, setMaxTime] = useState(20);
+  const [rangeDeg, setRangeDeg] = useState(180);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [config, setConfig] = useState<ChaosMapConfig | null>(null);
+  const [model, setModel] = useState(feed.model);
+  const [hasParams, setHasParams] = useState(false);
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const paramsRef = useRef<PendulumParams | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+  const valuesRef = useRef<number[][]>([]);
+
+  // Track the live parameters so a sweep uses the current masses, lengths and gravity
+  useEffect(() => feed.subscribe(({ params }) => {
+    if (!paramsRef.current) setHasParams(true);
+    paramsRef.current = params;
+  }), [feed]);
+
+  // Only the planar pendulum publishes parameters, so the map waits for it to be on screen
+  useEffect(() => feed.onModelChange(setModel), [feed]);
+  const unavailable =
+    model !== 'planar' ? 'Switch off the chain or Spherical 3D mode to map the planar pendulum' :
+    !hasParams ? 'Waiting for the simulation to start' : null;
+
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  const redraw = (mapConfig: ChaosMapConfig) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    const { resolution: n, metric: m, maxTime: tMax } = mapConfig;
+    const image = ctx.createImageData(n, n);
+    let maxLyapunov = 0;
+    for (const row of valuesRef.current) {
+      for (const v of row ?? []) if (Number.isFinite(v)) maxLyapunov = Math.max(maxLyapunov, v);
+    }
+    for (let row = 0; row < n; row++) {
+      const values = valuesRef.current[row];
+      for (let column = 0; column < n; column++) {
+        const offset = (row * n + column) * 4;
+        if (!values) {
+          image.data[offset + 3] = 0;
+          continue;
+        }
+        const [r, g, b] = cellColor(m, values[column], tMax, maxLyapunov);
+        image.data.set([r, g, b, 255], offset);
+      }
+    }
+    ctx.canvas.width = n;
+    ctx.canvas.height = n;
+    ctx.putImageData(image, 0, 0);
+  };
+
+  // The canvas is recreated when the panel is toggled back on, so repaint whatever rows exist
+  useEffect(() => {
+    if (showChaosMap && config) redraw(config);
+  }, [showChaosMap, config]);
+
+  const run = () => {
+    const live = paramsRef.current;
+    if (!live || unavailable) return;
+    // The controller's torque of the moment is not part of the system being mapped
+    const params = { ...live, controlTorque: 0 };
+
+    workerRef.current?.terminate();
+    const mapConfig: ChaosMapConfig = {
+      metric,
+      params,
+      theta1RangeDeg: [-rangeDeg, rangeDeg],
+      theta2RangeDeg: [-rangeDeg, rangeDeg],
+      resolution,
+      maxTime,
+      dt: MAP_DT,
+    };
+    valuesRef.current = [];
+    setConfig(mapConfig);
+    setProgress(0);
+    redraw(mapConfig);
+
+    const worker = new Worker(new URL('../lib/chaosMap.worker.ts', import.meta.url));
+    worker.addEventListener('message', (event: MessageEvent<ChaosMapResponse>) => {
+      const message = event.data;
+      if (message.type === 'row') {
+        valuesRef.current[message.row] = message.values;
+        setProgress((message.row + 1) / mapConfig.resolution);
+        redraw(mapConfig);
+      } else {
+        setProgress(null);
+        worker.terminate();
+        workerRef.current = null;
+      }
+    });
+    const request: ChaosMapRequest = { config: mapConfig };
+    worker.postMessage(request);
+    workerRef.current = worker;
+  };
+
+  const cancel = () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setProgress(null);
+  };
+
+  // Load the clicked initial condition into the settings panel and the live simulation
+  const loadCell = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!config) return;
+    const rect = event.currentTarget.getBoundingClientRect();
+    const column = Math.floor(((event.clientX - rect.left) / rect.width) * config.resolution);
+    const row = Math.floor(((event.clientY - rect.top) / rect.height) * config.resolution);
+    if (!valuesRef.current[row]) return;
+
+    const { theta1Deg, theta2Deg } = cellAngles(config, row, column);
+    const initialTheta1Deg = Math.round(theta1Deg * 10) / 10;
+    const initialTheta2Deg = Math.round(theta2Deg * 10) / 10;
+    levaStore.set({
+      'Pendulum Settings.initialTheta1Deg': initialTheta1Deg,
+      'Pendulum Settings.initialTheta2Deg': initialTheta2Deg,
+      'Pendulum Settings.initialOmega1': 0,
+    }, false);
+    feed.requestState(createInitialState({ initialTheta1Deg, initialTheta2Deg, initialOmega1: 0 }));
+  };
+
+  if (!showChaosMap) return null;
+
+  const selectClass = 'bg-white/10 rounded-full px-2 py-1 cursor-pointer';
+
+  return (
+    <div className="glass-container rounded-2xl px-4 py-3 text-white/90 text-xs w-[312px]">
+      <div className="flex items-center justify-between mb-2">
+        <span className="font-semibold text-sm">Chaos Map</span>
+        {progress !== null && <span className="tabular-nums text-white/60">{Math.round(progress * 100)}%</span>}
+      </div>
+
+      <div className="grid grid-cols-2 gap-1.5 mb-2">
+        <select value={metric} onChange={(e) => setMetric(e.target.value as ChaosMetric)} className={selectClass}>
+          {METRICS.map(({ id, label }) => <option key={id} value={id}>{label}</option>)}
+        </select>
+        <select value={resolution} onChange={(e) => setResolution(Number(e.target.value))} className={selectClass}>
+          {RESOLUTIONS.map((n) => <option key={n} value={n}>{n} × {n}</option>)}
+        </select>
+        <select value={maxTime} onChange={(e) => setMaxTime(Number(e.target.value))} className={selectClass}>
+          {DURATIONS.map((t) => <option key={t} value={t}>{t} s per cell</option>)}
+        </select>
+        <select value={rangeDeg} onChange={(e) => setRangeDeg(Number(e.target.value))} className={selectClass}>
+          {RANGES.map((r) => <option key={r} value={r}>θ ±{r}°</option>)}
+        </select>
+      </div>
+
+      <canvas
+        ref={canvasRef}
+        onClick={loadCell}
+        style={{ width: MAP_SIZE, height: MAP_SIZE, imageRendering: 'pixelated' }}
+        className="rounded-lg bg-black/30 cursor-crosshair"
+        title="Click a cell to load that initial condition"
+      />
+
+      <div className="flex items-center justify-between mt-2">
+        <span className="text-white/60">
+          {unavailable ?? (config ? `θ₁ → , θ₂ ↑ · ${config.metric === 'flipTime' ? 'black = no flip' : 'bright = chaotic'}` : 'Starts at rest, current parameters')}
+        </span>
+        {progress === null ? (
+          <button
+            onClick={run}
+            disabled={unavailable !== null}
+            title={unavailable ?? undefined}
+            className="px-2.5 py-0.5 rounded-full bg-white/10 hover:bg-white/20 transition-all duration-200 cursor-pointer disabled:opacity-40 disabled:cursor-default"
+          >
+            Compute
+          </button>
+        ) : (
+          <button onClick={cancel} className="px-2.5 py-0.5 rounded-full bg-white/10 hover:bg-white/20 transition-all duration-200 cursor-pointer">
+            Cancel
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
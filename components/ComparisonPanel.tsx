@@ -0,0 +1,89 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { energy } from '@/lib/physics/energy';
+import { wrapAngle } from '@/lib/physics/phaseSpace';
+import type { SimulationFeed } from '@/lib/simulationFeed';
+import LogDifferenceChart, { recordDifference, type DifferencePoint } from './LogDifferenceChart';
+import { formatEnergy } from './format';
+import { useSampledReadout } from './useSampledReadout';
+
+interface ComparisonPanelProps {
+  feed: SimulationFeed;
+}
+
+interface ComparisonReadout {
+  dTheta1: number; // B minus A (rad)
+  dTheta2: number;
+  energyA: number;
+  energyB: number;
+}
+
+// Identical settings stay within rounding of each other; the chart bottoms out there
+const FLOOR = 1e-10;
+const COLORS = ['#38bdf8', '#8b5cf6'] as const;
+
+// Angle difference between pendulums A and B of an A/B comparison since they last started
+// together, shown only while comparison is on
+export default function ComparisonPanel({ feed }: ComparisonPanelProps) {
+  const pointsRef = useRef<DifferencePoint[]>([]);
+  const latestRef = useRef<ComparisonReadout | null>(null);
+  const [active, setActive] = useState(false);
+  const readout = useSampledReadout(latestRef, active);
+
+  useEffect(() => {
+    const unsubscribe = feed.onAB((sample) => {
+      if (!sample) {
+        pointsRef.current = [];
+        latestRef.current = null;
+        setActive(false);
+        return;
+      }
+      const { a, b } = sample;
+      // A rod that has gone over the top on one side only is still just the wrapped difference away
+      const dTheta1 = wrapAngle(b.state.theta1 - a.state.theta1);
+      const dTheta2 = wrapAngle(b.state.theta2 - a.state.theta2);
+      recordDifference(pointsRef.current, a.state.t, dTheta1, dTheta2, FLOOR);
+
+      latestRef.current = {
+        dTheta1,
+        dTheta2,
+        energyA: energy(a.state, a.params).total,
+        energyB: energy(b.state, b.params).total,
+      };
+      setActive(true);
+    });
+    // Both pendulums restart from the same state on Reset
+    const unsubscribeReset = feed.onReset(() => {
+      pointsRef.current = [];
+    });
+    return () => {
+      unsubscribe();
+      unsubscribeReset();
+    };
+  }, [feed]);
+
+  if (!active) return null;
+
+  return (
+    <div className="glass-container rounded-2xl px-4 py-3 text-white/90 text-xs w-[312px]">
+      <div className="flex items-center justify-between mb-2">
+        <span className="font-semibold text-sm">A/B Comparison</span>
+        <span className="text-white/60">log₁₀ |θ_B − θ_A|</span>
+      </div>
+      <LogDifferenceChart
+        pointsRef={pointsRef}
+        floor={FLOOR}
+        colors={COLORS}
+        differences={readout ? [readout.dTheta1, readout.dTheta2] : null}
+      />
+      <div className="flex justify-between mt-1 tabular-nums">
+        <span>E_A {readout ? formatEnergy(readout.energyA) : '—'}</span>
+        <span>E_B {readout ? formatEnergy(readout.energyB) : '—'}</span>
+      </div>
+      <div className="mt-1 text-white/60">
+        Violet rods: pendulum B, set in the Comparison folder. Reset restarts both together
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,233 @@
+'use client';
+
+import { useCallback, useEffect, useRef } from 'react';
+import { button, levaStore, useControls } from 'leva';
+import * as THREE from 'three';
+import { advanceFrame, type FrameStepperConfig } from '@/lib/physics/engine';
+import type { FrameGeometry } from '@/lib/physics/collisions';
+import { drivenLayout, pivotDisplacement } from '@/lib/physics/forcing';
+import { INTEGRATOR_OPTIONS, type IntegratorName } from '@/lib/physics/integrators';
+import { placeRods, type RodLayout } from '@/lib/physics/kinematics';
+import { DYNAMICS_MODEL_OPTIONS, type DynamicsModel } from '@/lib/physics/model';
+import type { PendulumParams, PendulumState } from '@/lib/physics/types';
+import type { SimulationFeed } from '@/lib/simulationFeed';
+
+export type ComparisonLayout = 'overlay' | 'side';
+
+export const COMPARISON_LAYOUT_OPTIONS: Record<string, ComparisonLayout> = {
+  'Overlaid': 'overlay',
+  'Side by Side': 'side',
+};
+
+interface ComparisonPendulumProps {
+  feed: SimulationFeed;
+  layout: ComparisonLayout;
+  params: PendulumParams;
+  stepConfig: FrameStepperConfig;
+  rodLayout: RodLayout;
+  frame: FrameGeometry;
+  baseDepth: number;
+  rodThickness: number;
+  radialSegments: number;
+  rod1ZDisplacement: number;
+  rod2ZDisplacement: number;
+}
+
+const B_COLOR = '#8b5cf6';
+// Clear space between pendulum A's base and pendulum B's when they stand side by side
+const SIDE_GAP = 1;
+// Rounding slack, so a lag of exactly one substep is not read as slightly less
+const CLOCK_SLACK = 1e-9;
+
+// Pendulum B's settings and the Pendulum Settings inputs they are copied from
+const COPIED_SETTINGS: [string, string][] = [
+  ['bDynamicsModel', 'Pendulum Settings.dynamicsModel'],
+  ['bIntegrator', 'Pendulum Settings.integrator'],
+  ['bPhysicsTimeStep', 'Pendulum Settings.physicsTimeStep'],
+  ['bGravity', 'Pendulum Settings.gravity'],
+  ['bRod1Mass', 'Pendulum Settings.rod1Mass'],
+  ['bRod2Mass', 'Pendulum Settings.rod2Mass'],
+  ['bRod1Length', 'Pendulum Settings.rod1Length'],
+  ['bRod2Length', 'Pendulum Settings.rod2Length'],
+  ['bPivotPosition', 'Pendulum Settings.pivotPosition'],
+  ['bRod2AttachmentPosition', 'Pendulum Settings.rod2AttachmentPosition'],
+  ['bRod2PivotPosition', 'Pendulum Settings.rod2PivotPosition'],
+  ['bJoint1Damping', 'Damping & Friction.joint1Damping'],
+  ['bJoint2Damping', 'Damping & Friction.joint2Damping'],
+];
+
+function copyAToB() {
+  const values: Record<string, unknown> = {};
+  for (const [key, path] of COPIED_SETTINGS) values[`Comparison.${key}`] = levaStore.get(path);
+  levaStore.set(values, false);
+}
+
+// A support leg as a cylinder between two points in the plane
+function Leg({ from, to, radius, radialSegments }: { from: { x: number; y: number }; to: { x: number; y: number }; radius: number; radialSegments: number }) {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  return (
+    <mesh position={[(from.x + to.x) / 2, (from.y + to.y) / 2, 0]} rotation={[0, 0, Math.atan2(-dx, dy)]}>
+      <cylinderGeometry args={[radius, radius, Math.hypot(dx, dy), radialSegments]} />
+      <meshStandardMaterial color={B_COLOR} roughness={0.4} metalness={0.3} />
+    </mesh>
+  );
+}
+
+// Pendulum B of an A/B comparison: its own parameters, copied from Pendulum Settings and then
+// edited in the Comparison folder, run on the live pendulum's clock and restarted from its
+// state on every Reset
+export default function ComparisonPendulum({
+  feed,
+  layout,
+  params,
+  stepConfig,
+  rodLayout,
+  frame,
+  baseDepth,
+  rodThickness,
+  radialSegments,
+  rod1ZDisplacement,
+  rod2ZDisplacement,
+}: ComparisonPendulumProps) {
+  const b = useControls('Comparison', {
+    bDynamicsModel: { value: 'rigid' as DynamicsModel, options: DYNAMICS_MODEL_OPTIONS, label: 'B Dynamics Model' },
+    bIntegrator: { value: 'rk4' as IntegratorName, options: INTEGRATOR_OPTIONS, label: 'B Integrator' },
+    bPhysicsTimeStep: { value: 0.004, min: 0.0005, max: 0.02, step: 0.0005, label: 'B Physics Step (s)' },
+    bGravity: { value: 1.0, min: 0.1, max: 5, step: 0.1, label: 'B Gravity' },
+    bRod1Mass: { value: 5, min: 0.1, max: 20, step: 0.1, label: 'B Rod 1 Mass' },
+    bRod2Mass: { value: 5, min: 0.1, max: 20, step: 0.1, label: 'B Rod 2 Mass' },
+    bRod1Length: { value: 1.9, min: 0.5, max: 3, step: 0.1, label: 'B Rod 1 Length' },
+    bRod2Length: { value: 1.3, min: 0.5, max: 2, step: 0.1, label: 'B Rod 2 Length' },
+    bPivotPosition: { value: -0.3, min: -10, max: 10, step: 0.01, label: 'B Pivot Position on Rod 1' },
+    bRod2AttachmentPosition: { value: 0.03, min: 0, max: 1, step: 0.01, label: 'B Rod 2 Attachment on Rod 1' },
+    bRod2PivotPosition: { value: -0.3, min: -1, max: 1, step: 0.01, label: 'B Pivot Position on Rod 2' },
+    bJoint1Damping: { value: 0, min: 0, max: 2, step: 0.01, label: 'B Joint 1 Damping' },
+    bJoint2Damping: { value: 0, min: 0, max: 2, step: 0.01, label: 'B Joint 2 Damping' },
+    'Copy A → B': button(copyAToB),
+  }, { collapsed: true });
+
+  // Start B as a copy of A whenever comparison is switched on
+  useEffect(copyAToB, []);
+
+  // Forcing, friction, drag and contacts follow A; everything in the folder is B's own
+  const paramsB: PendulumParams = {
+    ...params,
+    model: b.bDynamicsModel,
+    gravity: b.bGravity,
+    rod1Mass: b.bRod1Mass,
+    rod2Mass: b.bRod2Mass,
+    rod1Length: b.bRod1Length,
+    rod2Length: b.bRod2Length,
+    pivotPosition: b.bPivotPosition,
+    rod2AttachmentPosition: b.bRod2AttachmentPosition,
+    rod2PivotPosition: b.bRod2PivotPosition,
+    joint1Damping: b.bJoint1Damping,
+    joint2Damping: b.bJoint2Damping,
+  };
+  const layoutB: RodLayout = {
+    ...rodLayout,
+    rod1Length: b.bRod1Length,
+    rod2Length: b.bRod2Length,
+    pivotPosition: b.bPivotPosition,
+    rod2AttachmentPosition: b.bRod2AttachmentPosition,
+    rod2PivotPosition: b.bRod2PivotPosition,
+  };
+  const stepConfigB: FrameStepperConfig = {
+    ...stepConfig,
+    integrator: b.bIntegrator,
+    fixedDt: b.bPhysicsTimeStep,
+    contacts: stepConfig.contacts && { ...stepConfig.contacts, layout: layoutB },
+  };
+
+  const rod1Ref = useRef<THREE.Group>(null);
+  const rod2Ref = useRef<THREE.Group>(null);
+  const standRef = useRef<THREE.Group>(null);
+  const stateRef = useRef<PendulumState | null>(null);
+  // Latest settings for the feed listeners, which stay subscribed across renders
+  const latestRef = useRef({ paramsB, layoutB, stepConfigB });
+  useEffect(() => {
+    latestRef.current = { paramsB, layoutB, stepConfigB };
+  });
+
+  const pose = useCallback((state: PendulumState) => {
+    const { paramsB, layoutB } = latestRef.current;
+    const placement = placeRods(state.theta1, state.theta2, drivenLayout(layoutB, paramsB, state.t));
+    // B's own stand shakes with a driven apex just like A's
+    if (standRef.current) {
+      const { x, y } = pivotDisplacement(paramsB, state.t);
+      standRef.current.position.set(x, y, 0);
+    }
+    if (rod1Ref.current) {
+      rod1Ref.current.position.set(placement.rod1Center.x, placement.rod1Center.y, rod1ZDisplacement);
+      rod1Ref.current.rotation.z = state.theta1;
+    }
+    if (rod2Ref.current) {
+      rod2Ref.current.position.set(placement.rod2Center.x, placement.rod2Center.y, rod2ZDisplacement);
+      rod2Ref.current.rotation.z = state.theta2;
+    }
+  }, [rod1ZDisplacement, rod2ZDisplacement]);
+
+  // One clock: each published frame of A brings B up to A's time in B's own substeps, so B
+  // never runs ahead and never lags by a whole substep. Both start from A's state when
+  // comparison is switched on and on every Reset
+  useEffect(() => {
+    const unsubscribe = feed.subscribe((sample) => {
+      const { paramsB, stepConfigB } = latestRef.current;
+      const previous = stateRef.current;
+      const state = previous
+        ? advanceFrame(previous, paramsB, sample.state.t - previous.t + CLOCK_SLACK, 0, stepConfigB).state
+        : sample.state;
+      stateRef.current = state;
+      pose(state);
+      feed.publishAB({ a: sample, b: { state, params: paramsB, stepConfig: stepConfigB } });
+    });
+    const unsubscribeReset = feed.onReset((state) => {
+      stateRef.current = state;
+      pose(state);
+    });
+    return () => {
+      unsubscribe();
+      unsubscribeReset();
+      stateRef.current = null;
+    };
+  }, [feed, pose]);
+
+  // Tell the readout when comparison is switched off
+  useEffect(() => () => feed.publishAB(null), [feed]);
+
+  const material = <meshStandardMaterial color={B_COLOR} transparent opacity={0.7} roughness={0.4} metalness={0.3} />;
+  const offsetX = layout === 'side' ? frame.baseWidth + SIDE_GAP : 0;
+
+  return (
+    <group position={[offsetX, 0, 0]}>
+      {/* Side by side, B stands on its own copy of the base and A-frame */}
+      {layout === 'side' && (
+        <>
+          <mesh position={[0, frame.baseHeight / 2, 0]}>
+            <boxGeometry args={[frame.baseWidth, frame.baseHeight, baseDepth]} />
+            <meshStandardMaterial color="#000000" roughness={0.9} metalness={0.1} />
+          </mesh>
+          <group ref={standRef}>
+            {frame.legs.map(([from, to], i) => (
+              <Leg key={i} from={from} to={to} radius={rodThickness} radialSegments={radialSegments} />
+            ))}
+          </group>
+        </>
+      )}
+
+      <group ref={rod1Ref}>
+        <mesh>
+          <cylinderGeometry args={[rodThickness * 1.05, rodThickness * 1.05, layoutB.rod1Length, radialSegments]} />
+          {material}
+        </mesh>
+      </group>
+      <group ref={rod2Ref}>
+        <mesh>
+          <cylinderGeometry args={[rodThickness * 0.85, rodThickness * 0.85, layoutB.rod2Length, radialSegments]} />
+          {material}
+        </mesh>
+      </group>
+    </group>
+  );
+}
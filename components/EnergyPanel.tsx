@@ -0,0 +1,169 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { useControls } from 'leva';
+import { boostWork, energy, isConservative, relativeDrift } from '@/lib/physics/energy';
+import type { SimulationFeed } from '@/lib/simulationFeed';
+import PlanarOnlyNotice from './PlanarOnlyNotice';
+import { formatEnergy } from './format';
+import { useSampledReadout } from './useSampledReadout';
+
+interface EnergyPanelProps {
+  feed: SimulationFeed;
+}
+
+interface EnergyPoint {
+  t: number;
+  kinetic: number;
+  potential: number;
+  total: number;
+}
+
+interface EnergyReadout {
+  kinetic: number;
+  potential: number;
+  total: number;
+  lagrangian: number;
+  drift: number;
+  conservative: boolean;
+}
+
+const CHART_WIDTH = 280;
+const CHART_HEIGHT = 110;
+const WINDOW_SECONDS = 10; // Simulated seconds shown in the rolling chart
+
+const SERIES: { key: keyof Omit<EnergyPoint, 't'>; color: string; label: string }[] = [
+  { key: 'kinetic', color: '#f59e0b', label: 'KE' },
+  { key: 'potential', color: '#38bdf8', label: 'PE' },
+  { key: 'total', color: '#ffffff', label: 'Total' },
+];
+
+function formatDrift(drift: number) {
+  if (!Number.isFinite(drift)) return '—';
+  return `${drift >= 0 ? '+' : ''}${(drift * 100).toExponential(2)}%`;
+}
+
+// Overlay with live kinetic/potential/total energy and drift since the last Reset
+export default function EnergyPanel({ feed }: EnergyPanelProps) {
+  const { showEnergyPanel, driftWarningPercent } = useControls('Diagnostics', {
+    showEnergyPanel: { value: true, label: '⚡ Energy Panel' },
+    driftWarningPercent: { value: 0.1, min: 0.001, max: 10, step: 0.001, label: 'Drift Warning (%)' },
+  }, { collapsed: true });
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const pointsRef = useRef<EnergyPoint[]>([]);
+  const baselineRef = useRef<{ total: number; theta1: number } | null>(null);
+  const latestRef = useRef<EnergyReadout | null>(null);
+  const readout = useSampledReadout(latestRef, showEnergyPanel);
+
+  // Collect samples from the live simulation
+  useEffect(() => {
+    const unsubscribe = feed.subscribe(({ state, params }) => {
+      const e = energy(state, params);
+      if (baselineRef.current === null) baselineRef.current = { total: e.total, theta1: state.theta1 };
+      const baseline = baselineRef.current;
+
+      const points = pointsRef.current;
+      points.push({ t: state.t, kinetic: e.kinetic, potential: e.potential, total: e.total });
+      while (points.length > 0 && state.t - points[0].t > WINDOW_SECONDS) points.shift();
+
+      latestRef.current = {
+        ...e,
+        // The boost's work is energy put in on purpose, not drift
+        drift: relativeDrift(e.total - boostWork(params, baseline.theta1, state.theta1), baseline.total),
+        conservative: isConservative(params),
+      };
+    });
+    const unsubscribeReset = feed.onReset(() => {
+      pointsRef.current = [];
+      baselineRef.current = null;
+    });
+    return () => {
+      unsubscribe();
+      unsubscribeReset();
+    };
+  }, [feed]);
+
+  // Draw the rolling chart imperatively every animation frame
+  useEffect(() => {
+    if (!showEnergyPanel) return;
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = CHART_WIDTH * dpr;
+    canvas.height = CHART_HEIGHT * dpr;
+    ctx.scale(dpr, dpr);
+
+    let frame = 0;
+    const draw = () => {
+      const points = pointsRef.current;
+      ctx.clearRect(0, 0, CHART_WIDTH, CHART_HEIGHT);
+
+      if (points.length > 1) {
+        const tEnd = points[points.length - 1].t;
+        const tStart = tEnd - WINDOW_SECONDS;
+        let max = 0;
+        for (const p of points) max = Math.max(max, p.kinetic, p.potential, p.total);
+        max = max > 0 ? max * 1.1 : 1;
+
+        for (const { key, color } of SERIES) {
+          ctx.beginPath();
+          ctx.strokeStyle = color;
+          ctx.lineWidth = 1.5;
+          points.forEach((p, i) => {
+            const x = ((p.t - tStart) / WINDOW_SECONDS) * CHART_WIDTH;
+            const y = CHART_HEIGHT - (p[key] / max) * CHART_HEIGHT;
+            if (i === 0) ctx.moveTo(x, y);
+            else ctx.lineTo(x, y);
+          });
+          ctx.stroke();
+        }
+      }
+      frame = requestAnimationFrame(draw);
+    };
+    frame = requestAnimationFrame(draw);
+    return () => cancelAnimationFrame(frame);
+  }, [showEnergyPanel]);
+
+  if (!showEnergyPanel) return null;
+
+  const driftExceeded =
+    readout !== null && readout.conservative && Math.abs(readout.drift) * 100 > driftWarningPercent;
+
+  return (
+    <div className="glass-container rounded-2xl px-4 py-3 text-white/90 text-xs w-[312px]">
+      <div className="flex items-center justify-between mb-2">
+        <span className="font-semibold text-sm">Energy</span>
+        {driftExceeded && (
+          <span
+            className="px-2 py-0.5 rounded-full bg-red-500/80 text-white font-semibold"
+            title="Total energy should be constant in an undamped run; this drift is integrator error"
+          >
+            ⚠ Drift
+          </span>
+        )}
+      </div>
+      <PlanarOnlyNotice feed={feed} />
+      <canvas ref={canvasRef} style={{ width: CHART_WIDTH, height: CHART_HEIGHT }} className="rounded-lg bg-black/30" />
+      <div className="flex gap-3 mt-2">
+        {SERIES.map(({ key, color, label }) => (
+          <span key={key} className="flex items-center gap-1">
+            <span className="inline-block w-3 h-0.5" style={{ background: color }} />
+            {label} {readout ? formatEnergy(readout[key]) : '—'}
+          </span>
+        ))}
+      </div>
+      <div className="flex justify-between mt-1 tabular-nums">
+        <span>L = KE − PE {readout ? formatEnergy(readout.lagrangian) : '—'}</span>
+        <span className={driftExceeded ? 'text-red-300 font-semibold' : ''}>
+          Drift {readout ? formatDrift(readout.drift) : '—'}
+        </span>
+      </div>
+      {readout && !readout.conservative && (
+        <div className="mt-1 text-white/60">Damping, friction, driving or the controller active: energy is not conserved.</div>
+      )}
+    </div>
+  );
+}
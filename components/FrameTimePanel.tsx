@@ -0,0 +1,129 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useControls } from 'leva';
+import type { BenchmarkPhase, BenchmarkResult, FrameBenchmark, FrameTimeSummary } from '@/lib/frameBenchmark';
+import type { SimulationStore } from '@/lib/simulationStore';
+import type { PendulumState } from '@/lib/physics/types';
+import { RAD_TO_DEG } from './format';
+
+interface FrameTimePanelProps {
+  store: SimulationStore;
+  benchmark: FrameBenchmark;
+}
+
+const READOUT_INTERVAL_MS = 250;
+
+const ROWS: { key: keyof FrameTimeSummary; label: string; format: (value: number) => string }[] = [
+  { key: 'fps', label: 'FPS', format: (v) => v.toFixed(1) },
+  { key: 'meanMs', label: 'Mean frame', format: (v) => `${v.toFixed(2)} ms` },
+  { key: 'p95Ms', label: '95th pct frame', format: (v) => `${v.toFixed(2)} ms` },
+  { key: 'worstMs', label: 'Worst frame', format: (v) => `${v.toFixed(2)} ms` },
+  { key: 'commitsPerSecond', label: 'React commits/s', format: (v) => v.toFixed(1) },
+  { key: 'renderMsPerFrame', label: 'React render/frame', format: (v) => `${v.toFixed(3)} ms` },
+];
+
+const PHASE_LABELS: Record<Exclude<BenchmarkPhase, 'idle'>, string> = {
+  reactState: 'State in React',
+  store: 'Store only',
+};
+
+// Live frame rate and the frame-time benchmark comparing the pendulum with its live state in
+// React against the same pendulum driven from the simulation store. The benchmark records
+// frames only while this panel is open
+export default function FrameTimePanel({ store, benchmark }: FrameTimePanelProps) {
+  const { showFrameTime } = useControls('Diagnostics', {
+    showFrameTime: { value: false, label: '⏲️ Frame Time' },
+  }, { collapsed: true });
+
+  const [live, setLive] = useState<FrameTimeSummary | null>(null);
+  const [state, setState] = useState<PendulumState | null>(null);
+  const [phase, setPhase] = useState<BenchmarkPhase>('idle');
+  const [progress, setProgress] = useState(0);
+  const [result, setResult] = useState<BenchmarkResult | null>(null);
+
+  useEffect(() => {
+    benchmark.setActive(showFrameTime);
+    return () => benchmark.setActive(false);
+  }, [benchmark, showFrameTime]);
+
+  // The angles come straight from the store, a few times a second
+  useEffect(() => {
+    if (!showFrameTime) return;
+    return store.subscribe(setState, READOUT_INTERVAL_MS);
+  }, [store, showFrameTime]);
+
+  useEffect(() => {
+    if (!showFrameTime) return;
+    const id = window.setInterval(() => {
+      setLive(benchmark.live());
+      setProgress(benchmark.progress());
+    }, READOUT_INTERVAL_MS);
+    return () => window.clearInterval(id);
+  }, [benchmark, showFrameTime]);
+
+  useEffect(() => benchmark.onPhaseChange((next) => {
+    setPhase(next);
+    if (next === 'idle') setResult(benchmark.result());
+  }), [benchmark]);
+
+  if (!showFrameTime) return null;
+
+  return (
+    <div className="glass-container rounded-2xl px-4 py-3 text-white/90 text-xs w-[312px]">
+      <div className="flex items-center justify-between mb-2">
+        <span className="font-semibold text-sm">Frame Time</span>
+        <span className="tabular-nums">{live ? `${live.fps.toFixed(0)} fps` : '—'}</span>
+      </div>
+      <div className="flex justify-between tabular-nums">
+        <span>Mean {live ? `${live.meanMs.toFixed(2)} ms` : '—'}</span>
+        <span>p95 {live ? `${live.p95Ms.toFixed(2)} ms` : '—'}</span>
+        <span>{live ? `${live.commitsPerSecond.toFixed(0)} commits/s` : '—'}</span>
+      </div>
+      <div className="flex justify-between mt-1 tabular-nums text-white/60">
+        <span>θ₁ {state ? `${(state.theta1 * RAD_TO_DEG).toFixed(1)}°` : '—'}</span>
+        <span>θ₂ {state ? `${(state.theta2 * RAD_TO_DEG).toFixed(1)}°` : '—'}</span>
+        <span>t {state ? `${state.t.toFixed(1)} s` : '—'}</span>
+      </div>
+
+      <div className="flex items-center justify-between mt-3">
+        <span className="font-semibold">Benchmark</span>
+        {phase === 'idle' ? (
+          <button
+            onClick={() => benchmark.start()}
+            className="px-2.5 py-0.5 rounded-full bg-white/10 hover:bg-white/20 transition-all duration-200 cursor-pointer"
+          >
+            Run
+          </button>
+        ) : (
+          <span className="tabular-nums text-white/60">
+            {PHASE_LABELS[phase]} {Math.round(progress * 100)}%
+          </span>
+        )}
+      </div>
+      {result && (
+        <table className="w-full mt-2 tabular-nums">
+          <thead className="text-white/60">
+            <tr>
+              <th className="text-left font-normal" />
+              <th className="text-right font-normal">React state</th>
+              <th className="text-right font-normal">Store</th>
+            </tr>
+          </thead>
+          <tbody>
+            {ROWS.map(({ key, label, format }) => (
+              <tr key={key}>
+                <td>{label}</td>
+                <td className="text-right">{format(result.reactState[key])}</td>
+                <td className="text-right">{format(result.store[key])}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      <div className="mt-2 text-white/60">
+        Runs the pendulum about five seconds each way. React render times need a development or profiling build
+      </div>
+    </div>
+  );
+}
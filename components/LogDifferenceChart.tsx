@@ -0,0 +1,92 @@
+'use client';
+
+import { useEffect, useRef, type RefObject } from 'react';
+import { formatDegrees } from './format';
+
+export interface DifferencePoint {
+  t: number;
+  log10Theta1: number;
+  log10Theta2: number;
+}
+
+interface LogDifferenceChartProps {
+  pointsRef: RefObject<DifferencePoint[]>;
+  floor: number; // Smallest difference drawn; anything below sits on the bottom edge
+  colors: readonly [string, string]; // Rod 1 and rod 2
+  differences: readonly [number, number] | null; // Latest wrapped differences for the legend (rad)
+}
+
+const CHART_WIDTH = 280;
+const CHART_HEIGHT = 110;
+const WINDOW_SECONDS = 20;
+
+const LABELS = ['Δθ₁', 'Δθ₂'];
+
+// Add the latest angle differences and drop what has scrolled out of the window
+export function recordDifference(points: DifferencePoint[], t: number, dTheta1: number, dTheta2: number, floor: number) {
+  points.push({
+    t,
+    log10Theta1: Math.log10(Math.max(Math.abs(dTheta1), floor)),
+    log10Theta2: Math.log10(Math.max(Math.abs(dTheta2), floor)),
+  });
+  while (points.length > 0 && t - points[0].t > WINDOW_SECONDS) points.shift();
+}
+
+// Rolling chart of log₁₀ |Δθ| between two pendulums that started together, with a legend of
+// the latest differences. Used by the A/B comparison and the Rapier divergence panels
+export default function LogDifferenceChart({ pointsRef, floor, colors, differences }: LogDifferenceChartProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  // log₁₀ of each angle difference over the last WINDOW_SECONDS, from the floor up to π
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = CHART_WIDTH * dpr;
+    canvas.height = CHART_HEIGHT * dpr;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+
+    const bottom = Math.log10(floor);
+    const top = Math.log10(Math.PI);
+    const series = [['log10Theta1', colors[0]], ['log10Theta2', colors[1]]] as const;
+    let frame = 0;
+    const draw = () => {
+      ctx.clearRect(0, 0, CHART_WIDTH, CHART_HEIGHT);
+      const points = pointsRef.current;
+      if (points.length > 1) {
+        const tStart = points[points.length - 1].t - WINDOW_SECONDS;
+        for (const [key, color] of series) {
+          ctx.strokeStyle = color;
+          ctx.lineWidth = 1.5;
+          ctx.beginPath();
+          points.forEach((p, i) => {
+            const x = ((p.t - tStart) / WINDOW_SECONDS) * CHART_WIDTH;
+            const y = CHART_HEIGHT - 4 - ((p[key] - bottom) / (top - bottom)) * (CHART_HEIGHT - 8);
+            if (i === 0) ctx.moveTo(x, y);
+            else ctx.lineTo(x, y);
+          });
+          ctx.stroke();
+        }
+      }
+      frame = requestAnimationFrame(draw);
+    };
+    frame = requestAnimationFrame(draw);
+    return () => cancelAnimationFrame(frame);
+  }, [pointsRef, floor, colors]);
+
+  return (
+    <>
+      <canvas ref={canvasRef} style={{ width: CHART_WIDTH, height: CHART_HEIGHT }} className="rounded-lg bg-black/30" />
+      <div className="flex gap-3 mt-2 tabular-nums">
+        {LABELS.map((label, i) => (
+          <span key={label} className="flex items-center gap-1">
+            <span className="inline-block w-3 h-0.5" style={{ background: colors[i] }} />
+            {label} {differences ? formatDegrees(differences[i]) : '—'}
+          </span>
+        ))}
+      </div>
+    </>
+  );
+}
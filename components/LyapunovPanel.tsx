@@ -0,0 +1,185 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useControls } from 'leva';
+import {
+  advanceLyapunov,
+  createLyapunovState,
+  DEFAULT_LYAPUNOV_OPTIONS,
+  lyapunovSample,
+  type LyapunovOptions,
+  type LyapunovSample,
+  type LyapunovState,
+} from '@/lib/physics/lyapunov';
+import type { SimulationFeed } from '@/lib/simulationFeed';
+import PlanarOnlyNotice from './PlanarOnlyNotice';
+
+interface LyapunovPanelProps {
+  feed: SimulationFeed;
+}
+
+const CHART_WIDTH = 280;
+const CHART_HEIGHT = 110;
+const MAX_POINTS = 4000;
+const READOUT_INTERVAL_MS = 250;
+const DIVERGENCE_COLOR = '#a78bfa';
+const EXPONENT_COLOR = '#34d399';
+
+// Largest Lyapunov exponent of the on-screen system, estimated from a shadow trajectory
+// started at the live state and driven with the live parameters, integrator and physics step
+export default function LyapunovPanel({ feed }: LyapunovPanelProps) {
+  const { showLyapunov } = useControls('Diagnostics', {
+    showLyapunov: { value: false, label: '🧭 Lyapunov Estimator' },
+  }, { collapsed: true });
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const estimatorRef = useRef<LyapunovState | null>(null);
+  const optionsRef = useRef<LyapunovOptions>(DEFAULT_LYAPUNOV_OPTIONS);
+  const pointsRef = useRef<LyapunovSample[]>([]);
+  const lastTimeRef = useRef(0);
+  const [readout, setReadout] = useState<LyapunovSample | null>(null);
+
+  const restart = () => {
+    estimatorRef.current = null;
+    pointsRef.current = [];
+    setReadout(null);
+  };
+
+  useEffect(() => {
+    if (!showLyapunov) return;
+    const unsubscribe = feed.subscribe(({ state, params, stepConfig }) => {
+      // A different integrator or step is a different numerical system, so the estimate starts over
+      const options = optionsRef.current;
+      if (
+        stepConfig.integrator !== options.integrator ||
+        stepConfig.tolerance !== options.tolerance ||
+        stepConfig.fixedDt !== options.dt
+      ) {
+        optionsRef.current = {
+          ...DEFAULT_LYAPUNOV_OPTIONS,
+          integrator: stepConfig.integrator,
+          tolerance: stepConfig.tolerance,
+          dt: stepConfig.fixedDt,
+        };
+        estimatorRef.current = null;
+        pointsRef.current = [];
+      }
+
+      // Seed from the live state, then follow it with the same parameters
+      if (!estimatorRef.current) {
+        estimatorRef.current = createLyapunovState(state);
+        lastTimeRef.current = state.t;
+        return;
+      }
+      const elapsed = state.t - lastTimeRef.current;
+      lastTimeRef.current = state.t;
+      if (elapsed <= 0) return;
+
+      estimatorRef.current = advanceLyapunov(estimatorRef.current, params, elapsed, optionsRef.current);
+      const points = pointsRef.current;
+      points.push(lyapunovSample(estimatorRef.current));
+      if (points.length > MAX_POINTS) points.shift();
+    });
+    const unsubscribeReset = feed.onReset(() => {
+      estimatorRef.current = null;
+      pointsRef.current = [];
+      setReadout(null);
+    });
+    return () => {
+      unsubscribe();
+      unsubscribeReset();
+      estimatorRef.current = null;
+      pointsRef.current = [];
+    };
+  }, [feed, showLyapunov]);
+
+  useEffect(() => {
+    if (!showLyapunov) return;
+    const id = window.setInterval(() => {
+      const points = pointsRef.current;
+      setReadout(points.length > 0 ? points[points.length - 1] : null);
+    }, READOUT_INTERVAL_MS);
+    return () => window.clearInterval(id);
+  }, [showLyapunov]);
+
+  // Divergence and running exponent against time, each scaled to fill the chart
+  useEffect(() => {
+    if (!showLyapunov) return;
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = CHART_WIDTH * dpr;
+    canvas.height = CHART_HEIGHT * dpr;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+
+    const drawSeries = (points: LyapunovSample[], value: (p: LyapunovSample) => number, color: string) => {
+      let min = Infinity;
+      let max = -Infinity;
+      for (const p of points) {
+        min = Math.min(min, value(p));
+        max = Math.max(max, value(p));
+      }
+      const span = max - min || 1;
+      const tStart = points[0].t;
+      const tSpan = points[points.length - 1].t - tStart || 1;
+
+      ctx.strokeStyle = color;
+      ctx.lineWidth = 1.5;
+      ctx.beginPath();
+      points.forEach((p, i) => {
+        const x = ((p.t - tStart) / tSpan) * CHART_WIDTH;
+        const y = CHART_HEIGHT - 4 - ((value(p) - min) / span) * (CHART_HEIGHT - 8);
+        if (i === 0) ctx.moveTo(x, y);
+        else ctx.lineTo(x, y);
+      });
+      ctx.stroke();
+    };
+
+    let frame = 0;
+    const draw = () => {
+      ctx.clearRect(0, 0, CHART_WIDTH, CHART_HEIGHT);
+      const points = pointsRef.current;
+      if (points.length > 1) {
+        drawSeries(points, (p) => p.log10Divergence, DIVERGENCE_COLOR);
+        drawSeries(points, (p) => p.exponent, EXPONENT_COLOR);
+      }
+      frame = requestAnimationFrame(draw);
+    };
+    frame = requestAnimationFrame(draw);
+    return () => cancelAnimationFrame(frame);
+  }, [showLyapunov]);
+
+  if (!showLyapunov) return null;
+
+  return (
+    <div className="glass-container rounded-2xl px-4 py-3 text-white/90 text-xs w-[312px]">
+      <div className="flex items-center justify-between mb-2">
+        <span className="font-semibold text-sm">Lyapunov Exponent</span>
+        <button
+          onClick={restart}
+          className="px-2.5 py-0.5 rounded-full bg-white/10 hover:bg-white/20 transition-all duration-200 cursor-pointer"
+          title="Start a new estimate from the current state"
+        >
+          Restart
+        </button>
+      </div>
+      <PlanarOnlyNotice feed={feed} />
+      <canvas ref={canvasRef} style={{ width: CHART_WIDTH, height: CHART_HEIGHT }} className="rounded-lg bg-black/30" />
+      <div className="flex gap-3 mt-2">
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-3 h-0.5" style={{ background: DIVERGENCE_COLOR }} />
+          log₁₀ separation {readout ? readout.log10Divergence.toFixed(2) : '—'}
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-3 h-0.5" style={{ background: EXPONENT_COLOR }} />
+          λ {readout ? `${readout.exponent.toFixed(3)} s⁻¹` : '—'}
+        </span>
+      </div>
+      <div className="mt-1 text-white/60">
+        Benettin&apos;s method, renormalised every 0.5 s
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { Line2 } from 'three/examples/jsm/lines/Line2.js';
+import { LineGeometry } from 'three/examples/jsm/lines/LineGeometry.js';
+import { LineMaterial } from 'three/examples/jsm/lines/LineMaterial.js';
+import type { TrailBuffer } from '@/lib/trailBuffer';
+
+export type TrailColorMode = 'speed' | 'energy' | 'solid';
+
+export const TRAIL_COLOR_OPTIONS: Record<string, TrailColorMode> = {
+  'Colour by speed': 'speed',
+  'Colour by energy': 'energy',
+  'Solid': 'solid',
+};
+
+interface MotionTrailProps {
+  buffer: TrailBuffer;
+  colorMode: TrailColorMode;
+  color: string; // Used in solid mode
+  width: number; // Screen pixels
+  fadeTo: string; // Older points blend into this colour (the scene background)
+}
+
+// Fading polyline drawn from a TrailBuffer, rebuilt imperatively each frame
+export default function MotionTrail({ buffer, colorMode, color, width, fadeTo }: MotionTrailProps) {
+  const line = useMemo(() => {
+    const trail = new Line2(new LineGeometry(), new LineMaterial({ vertexColors: true }));
+    trail.frustumCulled = false; // Bounds change every frame
+    return trail;
+  }, []);
+  // The line is updated in place every frame. Those updates go through the ref, which names the
+  // same object, because the React compiler treats memoised values as read-only
+  const lineRef = useRef<Line2>(null);
+
+  useEffect(() => {
+    if (lineRef.current) lineRef.current.material.linewidth = width;
+  }, [width]);
+
+  useEffect(() => {
+    return () => {
+      line.geometry.dispose();
+      line.material.dispose();
+    };
+  }, [line]);
+
+  const solidColor = useMemo(() => new THREE.Color(color), [color]);
+  const fadeColor = useMemo(() => new THREE.Color(fadeTo), [fadeTo]);
+  // Scratch colour reused for every point of every frame
+  const [pointColor] = useState(() => new THREE.Color());
+
+  useFrame(() => {
+    const line = lineRef.current;
+    if (!line) return;
+    const count = buffer.count;
+    if (count < 2) {
+      line.visible = false;
+      return;
+    }
+    line.visible = true;
+
+    // Allocate segment buffers once per capacity and update them in place afterwards,
+    // since replacing them every frame would leak GPU buffers
+    const segmentCapacity = buffer.capacity - 1;
+    let start = line.geometry.getAttribute('instanceStart') as THREE.InterleavedBufferAttribute | undefined;
+    if (!start || start.count !== segmentCapacity) {
+      line.geometry.dispose();
+      line.geometry = new LineGeometry();
+      line.geometry.setPositions(new Float32Array(buffer.capacity * 3));
+      line.geometry.setColors(new Float32Array(buffer.capacity * 3));
+      start = line.geometry.getAttribute('instanceStart') as THREE.InterleavedBufferAttribute;
+    }
+    const colorStart = line.geometry.getAttribute('instanceColorStart') as THREE.InterleavedBufferAttribute;
+    const positions = start.data.array as Float32Array;
+    const colors = colorStart.data.array as Float32Array;
+
+    // Normalise the colour value against the range currently in the trail
+    let min = Infinity;
+    let max = -Infinity;
+    buffer.forEach((_x, _y, _z, value) => {
+      min = Math.min(min, value);
+      max = Math.max(max, value);
+    });
+    const span = max - min || 1;
+
+    // Segment i runs from point i to point i + 1, stored as [start xyz, end xyz]
+    buffer.forEach((x, y, z, value, i) => {
+      if (colorMode === 'solid') {
+        pointColor.copy(solidColor);
+      } else {
+        // Blue for low values through to red for high values
+        pointColor.setHSL(0.66 * (1 - (value - min) / span), 0.9, 0.5);
+      }
+      // Oldest points fade into the background
+      pointColor.lerp(fadeColor, 1 - (i + 1) / count);
+
+      if (i < count - 1) {
+        positions.set([x, y, z], i * 6);
+        colors.set([pointColor.r, pointColor.g, pointColor.b], i * 6);
+      }
+      if (i > 0) {
+        positions.set([x, y, z], (i - 1) * 6 + 3);
+        colors.set([pointColor.r, pointColor.g, pointColor.b], (i - 1) * 6 + 3);
+      }
+    });
+
+    start.data.needsUpdate = true;
+    colorStart.data.needsUpdate = true;
+    line.geometry.instanceCount = count - 1;
+  });
+
+  return <primitive ref={lineRef} object={line} />;
+}
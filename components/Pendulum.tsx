@@ -4,14 +4,63 @@ import { useRef, useState, useEffect } from 'react';
 import { useFrame, useThree } from '@react-three/fiber';
 import { useControls, button } from 'leva';
 import * as THREE from 'three';
+import { advanceFrame, createInitialState, DEFAULT_INITIAL_CONDITIONS, type FrameStepperConfig } from '@/lib/physics/engine';
+import { INTEGRATOR_OPTIONS, type IntegratorName } from '@/lib/physics/integrators';
+import { DYNAMICS_MODEL_OPTIONS, type DynamicsModel } from '@/lib/physics/model';
+import type { PendulumParams, PendulumState } from '@/lib/physics/types';
+import type { SimulationFeed } from '@/lib/simulationFeed';
+import type { SimulationStore } from '@/lib/simulationStore';
+import type { FrameBenchmark } from '@/lib/frameBenchmark';
+import type { RunRecorder } from '@/lib/runRecorder';
+import { energy } from '@/lib/physics/energy';
+import {
+  advanceControlledFrame,
+  createBalanceController,
+  CONTROL_STRATEGY_OPTIONS,
+  DEFAULT_CONTROLLER_SETTINGS,
+  type ControllerSettings,
+} from '@/lib/physics/control';
+import { drivenLayout, pivotDisplacement, PIVOT_DRIVE_OPTIONS, type PivotDriveAxis } from '@/lib/physics/forcing';
+import { placeRods, type RodLayout } from '@/lib/physics/kinematics';
+import type { FrameGeometry } from '@/lib/physics/collisions';
+import { PHYSICS_BACKEND_OPTIONS, type PhysicsBackend } from '@/lib/physics/rigidBodies';
+import { createTrailBuffer, type TrailBuffer } from '@/lib/trailBuffer';
+import { createDragVelocityTracker, type DragVelocityTracker } from '@/lib/dragVelocity';
+import { applySettings, readInitialConditions, readSettings } from '@/lib/settingsSnapshot';
+import { decodeSettings } from '@/lib/shareLink';
+import PendulumEnsemble from './PendulumEnsemble';
+import ChainPendulum from './ChainPendulum';
+import SphericalPendulum from './SphericalPendulum';
+import RapierPendulum from './RapierPendulum';
+import ComparisonPendulum, { COMPARISON_LAYOUT_OPTIONS, type ComparisonLayout } from './ComparisonPendulum';
+import TorqueArrow from './TorqueArrow';
+import MotionTrail, { TRAIL_COLOR_OPTIONS, type TrailColorMode } from './MotionTrail';
+import { SILVER_MATERIAL } from './materials';
 
 type ViewMode = 'free' | 'positionFix';
 
+// Matches the Canvas background in Scene.tsx so trails fade into it
+const SCENE_BACKGROUND = '#e8e8e8';
+// How close (in metres) a finger or pen has to land to a rod to grab it
+const TOUCH_REACH = 0.15;
+
+// A rod held by one pointer, with the samples that estimate how fast it is thrown
+interface RodDrag {
+  rod: 1 | 2;
+  tracker: DragVelocityTracker;
+}
+
 interface PendulumProps {
   mode: ViewMode;
+  feed: SimulationFeed;
+  store: SimulationStore;
+  recorder: RunRecorder;
+  benchmark: FrameBenchmark;
+  rod2Tip: THREE.Vector3; // Kept at rod 2's free end for the follow cam
+  radialSegments: number; // Around each cylinder, set by the rendering quality tier
 }
 
-export default function Pendulum({ mode }: PendulumProps) {
+export default function Pendulum({ mode, feed, store, recorder, benchmark, rod2Tip, radialSegments }: PendulumProps) {
   // Adjustable parameters with sliders
   const {
     baseWidth,
@@ -29,14 +78,23 @@ export default function Pendulum({ mode }: PendulumProps) {
     initialTheta1Deg,
     initialTheta2Deg,
     initialOmega1,
-    rod1MomentumBoost,
     rod1Mass,
     rod2Mass,
     simulationSpeed,
     rod1ZDisplacement,
     rod2ZDisplacement,
+    dynamicsModel,
+    integrator,
+    physicsTimeStep,
+    integratorTolerance,
+    physicsBackend,
   } = useControls('Pendulum Settings', {
     simulationSpeed: { value: 1.0, min: 0.1, max: 10, step: 0.1, label: '⏱️ Simulation Speed' },
+    dynamicsModel: { value: 'rigid' as DynamicsModel, options: DYNAMICS_MODEL_OPTIONS, label: '🔩 Dynamics Model' },
+    integrator: { value: 'rk4' as IntegratorName, options: INTEGRATOR_OPTIONS, label: '🧮 Integrator' },
+    physicsTimeStep: { value: 0.004, min: 0.0005, max: 0.02, step: 0.0005, label: 'Physics Step (s)' },
+    integratorTolerance: { value: 1e-6, options: { '1e-3': 1e-3, '1e-4': 1e-4, '1e-6': 1e-6, '1e-8': 1e-8, '1e-10': 1e-10 }, label: 'RK45 Tolerance' },
+    physicsBackend: { value: 'analytic' as PhysicsBackend, options: PHYSICS_BACKEND_OPTIONS, label: '⚙️ Physics Backend' },
     baseWidth: { value: 3, min: 1, max: 5, step: 0.1, label: 'Base Width' },
     baseHeight: { value: 0.3, min: 0.1, max: 0.5, step: 0.05, label: 'Base Height' },
     baseDepth: { value: 1, min: 0.1, max: 1, step: 0.05, label: 'Base Depth' },
@@ -49,43 +107,312 @@ export default function Pendulum({ mode }: PendulumProps) {
     rod2AttachmentPosition: { value: 0.03, min: 0, max: 1, step: 0.01, label: 'Rod 2 Attachment on Rod 1 (0=pivot, 1=end)' },
     rod2PivotPosition: { value: -0.3, min: -1, max: 1, step: 0.01, label: 'Pivot Position on Rod 2 (0=attachment, 1=end)' },
     gravity: { value: 1.0, min: 0.1, max: 5, step: 0.1, label: 'Gravity' },
-    initialTheta1Deg: { value: 5.73, min: -360, max: 360, step: 0.1, label: 'Initial Angle 1 (deg)' },
-    initialTheta2Deg: { value: 90, min: -360, max: 360, step: 0.1, label: 'Initial Angle 2 (deg)' },
-    initialOmega1: { value: 1, min: -10, max: 10, step: 0.1, label: 'Initial Angular Velocity 1 (rad/s)' },
-    rod1MomentumBoost: { value: 1, min: 0, max: 5, step: 0.1, label: 'Rod 1 Momentum Boost' },
+    initialTheta1Deg: { value: DEFAULT_INITIAL_CONDITIONS.initialTheta1Deg, min: -360, max: 360, step: 0.1, label: 'Initial Angle 1 (deg)' },
+    initialTheta2Deg: { value: DEFAULT_INITIAL_CONDITIONS.initialTheta2Deg, min: -360, max: 360, step: 0.1, label: 'Initial Angle 2 (deg)' },
+    initialOmega1: { value: DEFAULT_INITIAL_CONDITIONS.initialOmega1, min: -10, max: 10, step: 0.1, label: 'Initial Angular Velocity 1 (rad/s)' },
     rod1Mass: { value: 5, min: 0.1, max: 20, step: 0.1, label: '⚖️ Rod 1 Mass' },
     rod2Mass: { value: 5, min: 0.1, max: 20, step: 0.1, label: '⚖️ Rod 2 Mass' },
     rod1ZDisplacement: { value: 0.08, min: -2, max: 2, step: 0.01, label: 'Rod 1 Z Displacement' },
     rod2ZDisplacement: { value: 0.15, min: -2, max: 2, step: 0.01, label: 'Rod 2 Z Displacement' },
-    Reset: button(() => {
-      const theta1Rad = (initialTheta1Deg * Math.PI) / 180;
-      const theta2Rad = (initialTheta2Deg * Math.PI) / 180;
-      setTheta1(theta1Rad);
-      setTheta2(theta2Rad);
-      setOmega1(initialOmega1);
-      setOmega2(0);
+    Reset: button((get) => {
+      // Read the current slider values rather than the ones captured when the schema was built
+      const initialState = createInitialState({
+        initialTheta1Deg: get('Pendulum Settings.initialTheta1Deg'),
+        initialTheta2Deg: get('Pendulum Settings.initialTheta2Deg'),
+        initialOmega1: get('Pendulum Settings.initialOmega1'),
+      });
+      recorder.clear();
+      store.set(initialState);
+      feed.publishReset(initialState);
     }),
   }, { collapsed: true });
 
-  // Physics state for double pendulum (from MATLAB code)
-  // State vector u = [theta1, theta2, omega1, omega2]
-  // Angles can be any value (full 360 degrees), sine/cosine handle periodicity
-  const [theta1, setTheta1] = useState((initialTheta1Deg * Math.PI) / 180); // First pendulum angle (radians)
-  const [theta2, setTheta2] = useState((initialTheta2Deg * Math.PI) / 180); // Second pendulum angle (radians)
-  const [omega1, setOmega1] = useState(initialOmega1); // First angular velocity
-  const [omega2, setOmega2] = useState(0); // Second angular velocity
+  // Energy loss so the sim can match a real rig, all zero for the ideal pendulum
+  const {
+    joint1Damping,
+    joint2Damping,
+    joint1Friction,
+    joint2Friction,
+    frictionStickVelocity,
+    rod1AirDrag,
+    rod2AirDrag,
+  } = useControls('Damping & Friction', {
+    joint1Damping: { value: 0, min: 0, max: 2, step: 0.01, label: 'Joint 1 Viscous Damping' },
+    joint2Damping: { value: 0, min: 0, max: 2, step: 0.01, label: 'Joint 2 Viscous Damping' },
+    joint1Friction: { value: 0, min: 0, max: 2, step: 0.01, label: 'Joint 1 Coulomb Friction' },
+    joint2Friction: { value: 0, min: 0, max: 2, step: 0.01, label: 'Joint 2 Coulomb Friction' },
+    frictionStickVelocity: { value: 0.05, min: 0.001, max: 1, step: 0.001, label: 'Stick/Slip Threshold (rad/s)' },
+    rod1AirDrag: { value: 0, min: 0, max: 2, step: 0.01, label: 'Rod 1 Air Drag' },
+    rod2AirDrag: { value: 0, min: 0, max: 2, step: 0.01, label: 'Rod 2 Air Drag' },
+  }, { collapsed: true });
+
+  // External drive: torque on joint 1 and an oscillating apex (the momentum boost is the constant torque)
+  const {
+    rod1MomentumBoost,
+    torqueDriveAmplitude,
+    torqueDriveFrequency,
+    pivotDriveAxis,
+    pivotDriveAmplitude,
+    pivotDriveFrequency,
+  } = useControls('Forcing', {
+    rod1MomentumBoost: { value: 1, min: 0, max: 5, step: 0.1, label: '〰️ Constant Torque (Momentum Boost)' },
+    torqueDriveAmplitude: { value: 0, min: 0, max: 20, step: 0.1, label: 'Periodic Torque Amplitude (N·m)' },
+    torqueDriveFrequency: { value: 0.5, min: 0, max: 5, step: 0.01, label: 'Periodic Torque Frequency (Hz)' },
+    pivotDriveAxis: { value: 'vertical' as PivotDriveAxis, options: PIVOT_DRIVE_OPTIONS, label: 'Pivot Drive Direction' },
+    pivotDriveAmplitude: { value: 0, min: 0, max: 0.5, step: 0.005, label: 'Pivot Amplitude (m)' },
+    pivotDriveFrequency: { value: 5, min: 0, max: 30, step: 0.1, label: 'Pivot Frequency (Hz)' },
+  }, { collapsed: true });
+
+  // Parameters that feed the equations of motion
+  const physicsParams: PendulumParams = {
+    model: dynamicsModel,
+    gravity,
+    rod1Mass,
+    rod2Mass,
+    rod1Length,
+    rod2Length,
+    pivotPosition,
+    rod2AttachmentPosition,
+    rod2PivotPosition,
+    rod1MomentumBoost,
+    torqueDriveAmplitude,
+    torqueDriveFrequency,
+    pivotDriveAxis,
+    pivotDriveAmplitude,
+    pivotDriveFrequency,
+    joint1Damping,
+    joint2Damping,
+    joint1Friction,
+    joint2Friction,
+    frictionStickVelocity,
+    rod1AirDrag,
+    rod2AirDrag,
+  };
+
+  // N-link chain in place of the double pendulum; its links are configured in the same folder
+  const { chainMode } = useControls('Chain', {
+    chainMode: { value: false, label: '⛓️ N-Link Chain (RK4)' },
+  }, { collapsed: true });
+
+  // Ball joints instead of hinges; the chain takes precedence if both are switched on. The
+  // azimuthal velocities live here rather than in SphericalPendulum so they are registered, and
+  // so shared and restored, even while the mode is off
+  const { sphericalMode: sphericalRequested, azimuthalVelocity1, azimuthalVelocity2 } = useControls('Spherical 3D', {
+    sphericalMode: { value: false, label: '🌐 Spherical 3D Mode (RK4)' },
+    azimuthalVelocity1: { value: 1.5, min: -10, max: 10, step: 0.05, label: 'Rod 1 Azimuthal Velocity (rad/s)' },
+    azimuthalVelocity2: { value: 0, min: -10, max: 10, step: 0.05, label: 'Rod 2 Azimuthal Velocity (rad/s)' },
+  }, { collapsed: true });
+  const sphericalMode = sphericalRequested && !chainMode;
+  // The planar rods and everything that shadows them step aside for either alternative model
+  const planar = !chainMode && !sphericalMode;
+  // The readout panels follow the planar pendulum only; tell them when it is not on screen
+  useEffect(() => {
+    feed.setModel(chainMode ? 'chain' : sphericalMode ? 'spherical' : 'planar');
+  }, [feed, chainMode, sphericalMode]);
+
+  // Balancing controller torquing joint 1, with its gains; dragging a rod is the disturbance
+  const manualPid = (get: (path: string) => unknown) =>
+    get('Control.controlStrategy') === 'pid' && !get('Control.pidFromLqr');
+  const {
+    controlEnabled,
+    controlStrategy,
+    maxTorque,
+    lqrAngleWeight,
+    lqrVelocityWeight,
+    lqrTorqueWeight,
+    pidKp1,
+    pidKi1,
+    pidKd1,
+    pidKp2,
+    pidKd2,
+    pidFromLqr,
+    swingUp,
+    swingUpGain,
+    captureAngleDeg,
+  } = useControls('Control', {
+    controlEnabled: { value: false, label: '🎯 Balance Upright' },
+    controlStrategy: { value: DEFAULT_CONTROLLER_SETTINGS.strategy, options: CONTROL_STRATEGY_OPTIONS, label: 'Controller' },
+    maxTorque: { value: DEFAULT_CONTROLLER_SETTINGS.maxTorque, min: 0.5, max: 200, step: 0.5, label: 'Torque Limit (N·m)' },
+    lqrAngleWeight: {
+      value: DEFAULT_CONTROLLER_SETTINGS.lqrAngleWeight, min: 0.1, max: 1000, step: 0.1, label: 'LQR Angle Weight (Q)',
+      render: (get) => get('Control.controlStrategy') === 'lqr',
+    },
+    lqrVelocityWeight: {
+      value: DEFAULT_CONTROLLER_SETTINGS.lqrVelocityWeight, min: 0.1, max: 1000, step: 0.1, label: 'LQR Velocity Weight (Q)',
+      render: (get) => get('Control.controlStrategy') === 'lqr',
+    },
+    lqrTorqueWeight: {
+      value: DEFAULT_CONTROLLER_SETTINGS.lqrTorqueWeight, min: 0.01, max: 100, step: 0.01, label: 'LQR Torque Weight (R)',
+      render: (get) => get('Control.controlStrategy') === 'lqr',
+    },
+    pidKi1: { value: DEFAULT_CONTROLLER_SETTINGS.pidKi1, min: -50, max: 50, step: 0.1, label: 'PID Ki (rod 1)', render: (get) => get('Control.controlStrategy') === 'pid' },
+    // The LQR weights still shape the P and D terms while they come from LQR
+    pidFromLqr: { value: DEFAULT_CONTROLLER_SETTINGS.pidFromLqr, label: 'PID P & D From LQR', render: (get) => get('Control.controlStrategy') === 'pid' },
+    pidKp1: { value: DEFAULT_CONTROLLER_SETTINGS.pidKp1, min: -500, max: 500, step: 0.5, label: 'PID Kp (rod 1)', render: manualPid },
+    pidKd1: { value: DEFAULT_CONTROLLER_SETTINGS.pidKd1, min: -500, max: 500, step: 0.5, label: 'PID Kd (rod 1)', render: manualPid },
+    pidKp2: { value: DEFAULT_CONTROLLER_SETTINGS.pidKp2, min: -1000, max: 1000, step: 0.5, label: 'PID Kp (rod 2)', render: manualPid },
+    pidKd2: { value: DEFAULT_CONTROLLER_SETTINGS.pidKd2, min: -500, max: 500, step: 0.5, label: 'PID Kd (rod 2)', render: manualPid },
+    swingUp: { value: DEFAULT_CONTROLLER_SETTINGS.swingUp, label: 'Energy Swing-Up' },
+    swingUpGain: { value: DEFAULT_CONTROLLER_SETTINGS.swingUpGain, min: 0, max: 100, step: 0.5, label: 'Swing-Up Gain', render: (get) => get('Control.swingUp') },
+    captureAngleDeg: {
+      value: Math.round((DEFAULT_CONTROLLER_SETTINGS.captureAngle * 180) / Math.PI), min: 2, max: 90, step: 1, label: 'Capture Angle (deg)',
+      render: (get) => get('Control.swingUp'),
+    },
+  }, { collapsed: true });
+
+  const controllerSettings: ControllerSettings = {
+    strategy: controlStrategy,
+    maxTorque,
+    lqrAngleWeight,
+    lqrVelocityWeight,
+    lqrTorqueWeight,
+    pidKp1,
+    pidKi1,
+    pidKd1,
+    pidKp2,
+    pidKd2,
+    pidFromLqr,
+    swingUp,
+    swingUpGain,
+    captureAngle: (captureAngleDeg * Math.PI) / 180,
+  };
+  const [controller] = useState(createBalanceController);
+
+  // Hard end stops on the joints and contact with the A-frame, its base and the floor
+  const { jointLimits, joint1LimitDeg, joint2LimitDeg, frameCollisions, restitution } = useControls('Collisions', {
+    jointLimits: { value: false, label: '🛑 Joint Limits' },
+    joint1LimitDeg: {
+      value: 120, min: 5, max: 180, step: 1, label: 'Joint 1 Limit (± deg)',
+      render: (get) => get('Collisions.jointLimits'),
+    },
+    joint2LimitDeg: {
+      value: 150, min: 5, max: 180, step: 1, label: 'Joint 2 Limit (± deg)',
+      render: (get) => get('Collisions.jointLimits'),
+    },
+    frameCollisions: { value: false, label: '🧱 Frame & Floor Collisions' },
+    restitution: { value: 0.5, min: 0, max: 1, step: 0.05, label: 'Restitution' },
+  }, { collapsed: true });
+
+  // Contacts are resolved by the analytic solver alone, so the Rapier bodies would only agree
+  // until the first impact; the comparison is held off while they are on and the panel says why
+  const rapierBlock = physicsBackend !== 'rapier' || !planar
+    ? null
+    : jointLimits || frameCollisions
+      ? 'Paused: joint limits and frame collisions only exist in the analytic solver. Switch them off under Collisions to compare'
+      : null;
+  useEffect(() => {
+    feed.setRapierBlock(rapierBlock);
+  }, [feed, rapierBlock]);
+
+  // Butterfly-effect ensemble of copies with perturbed initial angles
+  const { showEnsemble, ensembleCount, ensembleEpsilon, ensembleOpacity } = useControls('Ensemble', {
+    showEnsemble: { value: false, label: '🦋 Butterfly Ensemble' },
+    ensembleCount: { value: 50, min: 2, max: 500, step: 1, label: 'Copies' },
+    ensembleEpsilon: {
+      value: 1e-6,
+      options: { '1e-9 rad': 1e-9, '1e-6 rad': 1e-6, '1e-4 rad': 1e-4, '1e-3 rad': 1e-3, '1e-2 rad': 1e-2 },
+      label: 'Angle Step (ε)',
+    },
+    ensembleOpacity: { value: 0.35, min: 0.05, max: 1, step: 0.05, label: 'Opacity' },
+  }, { collapsed: true });
+
+  // A second pendulum B with its own settings, on the same clock; its settings join this folder
+  const { compareMode, compareLayout } = useControls('Comparison', {
+    compareMode: { value: false, label: '🆚 A/B Comparison' },
+    compareLayout: { value: 'overlay' as ComparisonLayout, options: COMPARISON_LAYOUT_OPTIONS, label: 'Layout' },
+  }, { collapsed: true });
+
+  // Motion trails following the free ends of the rods
+  const {
+    showTrails,
+    trailRod1,
+    trailLength,
+    trailColorMode,
+    trailWidth,
+  } = useControls('Trails', {
+    showTrails: { value: true, label: '✨ Show Trails' },
+    trailRod1: { value: false, label: 'Trail Rod 1 Tip' },
+    trailLength: { value: 400, min: 20, max: 3000, step: 10, label: 'Trail Length (points)' },
+    trailColorMode: {
+      value: 'speed' as TrailColorMode,
+      options: TRAIL_COLOR_OPTIONS,
+      label: 'Trail Colour',
+    },
+    trailWidth: { value: 2, min: 0.5, max: 10, step: 0.5, label: 'Trail Width (px)' },
+  }, { collapsed: true });
+
+  const [rod1Trail] = useState(() => createTrailBuffer(trailLength));
+  const [rod2Trail] = useState(() => createTrailBuffer(trailLength));
+  const rod1TipRef = useRef(new THREE.Vector3());
+  const rod2TipRef = useRef(new THREE.Vector3());
+  const [tipScratch] = useState(() => new THREE.Vector3());
+
+  useEffect(() => {
+    rod1Trail.resize(trailLength);
+    rod2Trail.resize(trailLength);
+  }, [rod1Trail, rod2Trail, trailLength]);
+
+  // A trail drawn for different geometry is meaningless, so start over when it changes
+  useEffect(() => {
+    rod1Trail.clear();
+    rod2Trail.clear();
+  }, [
+    rod1Trail, rod2Trail, trailRod1, baseHeight, supportHeight, rod1Length, rod2Length,
+    pivotPosition, rod2AttachmentPosition, rod2PivotPosition, rod1ZDisplacement, rod2ZDisplacement, sphericalMode,
+  ]);
+
+  // Any fresh start (Reset, a loaded state, leaving a replay) begins with a fresh controller
+  useEffect(() => feed.onReset(() => controller.reset()), [feed, controller]);
+  useEffect(() => {
+    if (controlEnabled) controller.reset();
+  }, [controlEnabled, controller]);
+
+  useEffect(() => feed.onReset(() => {
+    rod1Trail.clear();
+    rod2Trail.clear();
+  }), [feed, rod1Trail, rod2Trail]);
+
+  // Leftover simulated time not yet consumed by a whole physics substep
+  const accumulatorRef = useRef(0);
+
+  // Other panels (e.g. the chaos map) can load a state into the live simulation
+  useEffect(() => feed.onStateRequest((state) => {
+    recorder.clear();
+    store.set(state);
+    accumulatorRef.current = 0;
+    feed.publishReset(state);
+  }), [feed, store, recorder]);
+
+  // Leaving a replay continues the run from the frame that was on screen
+  useEffect(() => recorder.onResume((state) => {
+    store.set(state);
+    accumulatorRef.current = 0;
+    feed.publishReset(state);
+  }), [feed, store, recorder]);
+
+  // A shared link carries the full configuration; apply it once the panel inputs above exist
+  useEffect(() => {
+    const snapshot = decodeSettings(window.location.hash, readSettings());
+    if (!snapshot) return;
+    applySettings(snapshot);
+    feed.requestState(createInitialState(readInitialConditions()));
+  }, [feed]);
 
   const rod1Ref = useRef<THREE.Group>(null);
   const rod2Ref = useRef<THREE.Group>(null);
+  const supportsRef = useRef<THREE.Group>(null);
   const rod1MeshRef = useRef<THREE.Mesh>(null);
   const rod2MeshRef = useRef<THREE.Mesh>(null);
   const { camera, raycaster, gl } = useThree();
   
-  // Pointer interaction state
-  const [isDragging, setIsDragging] = useState(false);
-  const [draggedRod, setDraggedRod] = useState<1 | 2 | null>(null);
+  // Pointer interaction state, in refs so a drag never re-renders or re-binds the listeners.
+  // Each pointer (finger, pen or mouse) holds at most one rod, so two fingers can hold both
+  const dragsRef = useRef(new Map<number, RodDrag>());
   const pointerRef = useRef(new THREE.Vector2());
-  const mouseDownRef = useRef(false);
+
+  // Only used by the frame-time benchmark's first phase, which also keeps the live state in
+  // React and sets it every frame, the way the pendulum worked before the store
+  const [reactState, setReactState] = useState<PendulumState | null>(null);
 
   // Calculate positions for A-frame structure
   const baseY = baseHeight / 2;
@@ -126,266 +453,269 @@ export default function Pendulum({ mode }: PendulumProps) {
   const basePivotX = apexX;
   const basePivotY = apexY;
   
-  // Calculate actual pivot position along rod1
-  // pivotPositionOnRod1: 0 = at apex (top of rod1), 1 = at end of rod1
-  // We'll calculate this dynamically in the animation loop based on current rod1 angle
-
-  // Helper function to calculate derivatives for the double pendulum equations
-  // Using proper Lagrangian mechanics for a double pendulum with length and mass
-  const calculateDerivatives = (t1: number, t2: number, w1: number, w2: number) => {
-    const g = gravity;
-    const m1 = rod1Mass; // Mass of first pendulum (adjustable)
-    const m2 = rod2Mass; // Mass of second pendulum (adjustable)
-    const L1 = rod1Length; // Length of first rod
-    const L2 = rod2Length; // Length of second rod
-    
-    const c = Math.cos(t1 - t2);
-    const s = Math.sin(t1 - t2);
-    
-    // Proper double pendulum equations with length dependencies
-    // These equations come from the Lagrangian of a double pendulum system
-    // accounting for the distributed mass and actual rod lengths
-    
-    const denominator1 = (m1 + m2) * L1 - m2 * L1 * c * c;
-    const denominator2 = (L2 / L1) * denominator1;
-    
-    // Angular accelerations with proper length scaling and nonlinear coupling
-    // Note: These are the full equations for a double pendulum with point masses at the ends
-    const alpha1 = (
-      m2 * L1 * w1 * w1 * s * c +
-      m2 * g * Math.sin(t2) * c +
-      m2 * L2 * w2 * w2 * s -
-      (m1 + m2) * g * Math.sin(t1) +
-      rod1MomentumBoost // Momentum boost to help overcome initial inertia
-    ) / denominator1;
-    
-    const alpha2 = (
-      -m2 * L2 * w2 * w2 * s * c +
-      (m1 + m2) * (g * Math.sin(t1) * c - L1 * w1 * w1 * s - g * Math.sin(t2))
-    ) / denominator2;
-    
-    return {
-      dTheta1: w1,
-      dTheta2: w2,
-      dOmega1: alpha1,
-      dOmega2: alpha2
-    };
+  // Rod placement inputs; the actual positions depend on the current angles
+  // pivotPosition: 0 = apex at the top of rod1, 1 = apex at the end of rod1
+  const rodLayout: RodLayout = {
+    apex: { x: basePivotX, y: basePivotY },
+    rod1Length,
+    rod2Length,
+    pivotPosition,
+    rod2AttachmentPosition,
+    rod2PivotPosition,
+  };
+
+  // The base and supports as the rods can collide with them
+  const frameGeometry: FrameGeometry = {
+    baseWidth,
+    baseHeight,
+    legs: [
+      [{ x: -baseSpacing, y: baseY }, { x: -apexHalfSpacing, y: apexY }],
+      [{ x: baseSpacing, y: baseY }, { x: apexHalfSpacing, y: apexY }],
+    ],
+  };
+
+  // Integrator settings shared by everything stepped in lockstep with this pendulum
+  const stepConfig: FrameStepperConfig = {
+    integrator,
+    tolerance: integratorTolerance,
+    fixedDt: physicsTimeStep,
+    // Enough for full speed at the smallest step at 50 fps; anything beyond is dropped, not caught up
+    maxSubsteps: 400,
+    contacts: {
+      layout: rodLayout,
+      frame: frameGeometry,
+      jointLimits,
+      joint1Limit: (joint1LimitDeg * Math.PI) / 180,
+      joint2Limit: (joint2LimitDeg * Math.PI) / 180,
+      frameCollisions,
+      restitution,
+    },
   };
 
-  // Set up global pointer event handlers for dragging rods in position fix mode
+  // The rods' geometry for the pointer handlers, refreshed after every render so a Leva change
+  // does not re-bind the listeners in the middle of a drag
+  const dragGeometryRef = useRef({ layout: rodLayout, params: physicsParams });
+  useEffect(() => {
+    dragGeometryRef.current = { layout: rodLayout, params: physicsParams };
+  });
+
+  // Set up pointer event handlers (mouse, touch and pen) for dragging rods in position fix mode
   useEffect(() => {
-    if (mode !== 'positionFix') {
+    if (mode !== 'positionFix' || !planar) {
       gl.domElement.style.cursor = 'default';
       return;
     }
 
-    const handleMouseDown = (event: MouseEvent) => {
-      if (event.button !== 0) return; // Only left mouse button
-      
-      const rect = gl.domElement.getBoundingClientRect();
+    const canvas = gl.domElement;
+    const drags = dragsRef.current;
+    const isHeld = (rod: 1 | 2) => [...drags.values()].some((drag) => drag.rod === rod);
+
+    const aimAt = (event: PointerEvent) => {
+      const rect = canvas.getBoundingClientRect();
       const x = ((event.clientX - rect.left) / rect.width) * 2 - 1;
       const y = -((event.clientY - rect.top) / rect.height) * 2 + 1;
       pointerRef.current.set(x, y);
-      
-      // Raycast to detect which rod is clicked
       raycaster.setFromCamera(pointerRef.current, camera);
-      const rod1Intersects = rod1MeshRef.current ? raycaster.intersectObject(rod1MeshRef.current) : [];
-      const rod2Intersects = rod2MeshRef.current ? raycaster.intersectObject(rod2MeshRef.current) : [];
-      
-      if (rod1Intersects.length > 0) {
-        mouseDownRef.current = true;
-        setIsDragging(true);
-        setDraggedRod(1);
-        gl.domElement.style.cursor = 'grabbing';
-        event.preventDefault();
-      } else if (rod2Intersects.length > 0) {
-        mouseDownRef.current = true;
-        setIsDragging(true);
-        setDraggedRod(2);
-        gl.domElement.style.cursor = 'grabbing';
-        event.preventDefault();
+    };
+
+    // How far the aimed ray passes from a rod's axis, measured in the rod's own z plane
+    const distanceToRod = (mesh: THREE.Mesh) => {
+      if (raycaster.intersectObject(mesh).length > 0) return 0;
+      const halfLength = (mesh.geometry as THREE.CylinderGeometry).parameters.height / 2;
+      const top = mesh.localToWorld(new THREE.Vector3(0, halfLength, 0));
+      const bottom = mesh.localToWorld(new THREE.Vector3(0, -halfLength, 0));
+      const aimed = raycaster.ray.intersectPlane(new THREE.Plane(new THREE.Vector3(0, 0, 1), -top.z), new THREE.Vector3());
+      if (!aimed) return Infinity;
+      return new THREE.Line3(top, bottom).closestPointToPoint(aimed, true, new THREE.Vector3()).distanceTo(aimed);
+    };
+
+    // The closest free rod within reach of the aimed ray; fingers get more reach than a mouse
+    const pickRod = (reach: number): 1 | 2 | null => {
+      let picked: 1 | 2 | null = null;
+      let closest = Infinity;
+      for (const [rod, mesh] of [[1, rod1MeshRef.current], [2, rod2MeshRef.current]] as const) {
+        if (!mesh || isHeld(rod)) continue;
+        const distance = distanceToRod(mesh);
+        if (distance <= reach && distance < closest) {
+          picked = rod;
+          closest = distance;
+        }
       }
+      return picked;
     };
 
-    const handleMouseMove = (event: MouseEvent) => {
-      const rect = gl.domElement.getBoundingClientRect();
-      const x = ((event.clientX - rect.left) / rect.width) * 2 - 1;
-      const y = -((event.clientY - rect.top) / rect.height) * 2 + 1;
-      pointerRef.current.set(x, y);
-      
-      if (mouseDownRef.current && isDragging && draggedRod) {
+    const handlePointerDown = (event: PointerEvent) => {
+      if (event.pointerType === 'mouse' && event.button !== 0) return; // Only left mouse button
+
+      // Raycast to detect which rod is touched
+      aimAt(event);
+      const rod = pickRod(event.pointerType === 'mouse' ? 0 : TOUCH_REACH);
+      if (!rod) return;
+
+      // Starting from the rod's current angle keeps its whole turns through the drag
+      const tracker = createDragVelocityTracker();
+      const current = store.get();
+      tracker.push(event.timeStamp / 1000, rod === 1 ? current.theta1 : current.theta2);
+      drags.set(event.pointerId, { rod, tracker });
+      canvas.setPointerCapture(event.pointerId);
+      canvas.style.cursor = 'grabbing';
+      // Keep the grab away from the orbit controls, which would otherwise pan or zoom with it
+      event.stopImmediatePropagation();
+      event.preventDefault();
+    };
+
+    const handlePointerMove = (event: PointerEvent) => {
+      aimAt(event);
+      const drag = drags.get(event.pointerId);
+
+      if (drag) {
         // Create a plane at z=0 for intersection
         const plane = new THREE.Plane(new THREE.Vector3(0, 0, 1), 0);
-        raycaster.setFromCamera(pointerRef.current, camera);
         const intersection = new THREE.Vector3();
-        raycaster.ray.intersectPlane(plane, intersection);
-        
-        if (draggedRod === 1) {
-          // Calculate angle from pivot to intersection point
-          const dx = intersection.x - basePivotX;
-          const dy = intersection.y - basePivotY;
-          const newAngle = Math.atan2(dx, -dy);
-          setTheta1(newAngle);
-          setOmega1(0);
-        } else if (draggedRod === 2) {
-          // For rod 2, calculate relative angle
-          // First get the attachment point
-          const x1 = Math.sin(theta1);
-          const y1 = -Math.cos(theta1);
-          const attachmentDistance = rod2AttachmentPosition * rod1Length;
-          const rod2AttachmentX = basePivotX + attachmentDistance * x1;
-          const rod2AttachmentY = basePivotY + attachmentDistance * y1;
-          
-          // Calculate angle from attachment point to intersection
-          const dx = intersection.x - rod2AttachmentX;
-          const dy = intersection.y - rod2AttachmentY;
-          const absoluteAngle = Math.atan2(dx, -dy);
-          const relativeAngle = absoluteAngle - theta1;
-          setTheta2(relativeAngle);
-          setOmega2(0);
-        }
-      } else {
+        if (!raycaster.ray.intersectPlane(plane, intersection)) return;
+        const time = event.timeStamp / 1000;
+
+        // Rod 1 turns about the apex and rod 2 about joint 2, both where the drive has them now
+        const current = store.get();
+        const { layout, params } = dragGeometryRef.current;
+        const driven = drivenLayout(layout, params, current.t);
+        const center = drag.rod === 1 ? driven.apex : placeRods(current.theta1, current.theta2, driven).joint2;
+        const angle = drag.tracker.push(time, Math.atan2(intersection.x - center.x, -(intersection.y - center.y)));
+        store.set(drag.rod === 1 ? { ...current, theta1: angle, omega1: 0 } : { ...current, theta2: angle, omega2: 0 });
+      } else if (event.pointerType === 'mouse' && drags.size === 0) {
         // Check for hover
-        raycaster.setFromCamera(pointerRef.current, camera);
-        const rod1Intersects = rod1MeshRef.current ? raycaster.intersectObject(rod1MeshRef.current) : [];
-        const rod2Intersects = rod2MeshRef.current ? raycaster.intersectObject(rod2MeshRef.current) : [];
-        
-        if (!mouseDownRef.current) {
-          if (rod1Intersects.length > 0 || rod2Intersects.length > 0) {
-            gl.domElement.style.cursor = 'grab';
-          } else {
-            gl.domElement.style.cursor = 'default';
-          }
-        }
+        canvas.style.cursor = pickRod(0) ? 'grab' : 'default';
       }
     };
 
-    const handleMouseUp = () => {
-      mouseDownRef.current = false;
-      setIsDragging(false);
-      setDraggedRod(null);
-      gl.domElement.style.cursor = 'default';
+    // Letting go hands the rod its recent angular velocity, so it can be thrown. A cancelled
+    // pointer (the browser took over the gesture) just sets the rod down
+    const release = (event: PointerEvent, fling: boolean) => {
+      const drag = drags.get(event.pointerId);
+      if (!drag) return;
+      drags.delete(event.pointerId);
+      const omega = fling ? drag.tracker.velocity(event.timeStamp / 1000) : 0;
+      store.set(drag.rod === 1 ? { ...store.get(), omega1: omega } : { ...store.get(), omega2: omega });
+      if (canvas.hasPointerCapture(event.pointerId)) canvas.releasePointerCapture(event.pointerId);
+      if (drags.size === 0) canvas.style.cursor = 'default';
     };
+    const handlePointerUp = (event: PointerEvent) => release(event, true);
+    const handlePointerCancel = (event: PointerEvent) => release(event, false);
 
-    const canvas = gl.domElement;
-    canvas.addEventListener('mousedown', handleMouseDown);
-    canvas.addEventListener('mousemove', handleMouseMove);
-    canvas.addEventListener('mouseup', handleMouseUp);
-    canvas.addEventListener('mouseleave', handleMouseUp);
+    // Captured listeners on the canvas run before the orbit controls' own
+    canvas.addEventListener('pointerdown', handlePointerDown, { capture: true });
+    canvas.addEventListener('pointermove', handlePointerMove);
+    canvas.addEventListener('pointerup', handlePointerUp);
+    canvas.addEventListener('pointercancel', handlePointerCancel);
 
     return () => {
-      canvas.removeEventListener('mousedown', handleMouseDown);
-      canvas.removeEventListener('mousemove', handleMouseMove);
-      canvas.removeEventListener('mouseup', handleMouseUp);
-      canvas.removeEventListener('mouseleave', handleMouseUp);
+      canvas.removeEventListener('pointerdown', handlePointerDown, { capture: true });
+      canvas.removeEventListener('pointermove', handlePointerMove);
+      canvas.removeEventListener('pointerup', handlePointerUp);
+      canvas.removeEventListener('pointercancel', handlePointerCancel);
+      drags.clear();
     };
-  }, [mode, isDragging, draggedRod, camera, raycaster, gl, basePivotX, basePivotY, theta1, rod2AttachmentPosition, rod1Length]);
+    // reactState is listed so the benchmark's first phase re-binds these listeners on every
+    // frame, as the dependency on theta1 once did
+  }, [mode, planar, store, camera, raycaster, gl, reactState]);
 
-  // Physics simulation using RK4 integration for stability at higher speeds
-  useFrame((state, delta) => {
-    // Skip physics for dragged rod in position fix mode
-    const skipRod1Physics = mode === 'positionFix' && isDragging && draggedRod === 1;
-    const skipRod2Physics = mode === 'positionFix' && isDragging && draggedRod === 2;
-    
-    // Limit delta to prevent instability, apply simulation speed
-    const dt = Math.min(delta, 0.016) * simulationSpeed; // Cap at ~60fps equivalent
-    
-    // RK4 Integration for better accuracy
-    // k1
-    const k1 = calculateDerivatives(theta1, theta2, omega1, omega2);
-    
-    // k2
-    const k2 = calculateDerivatives(
-      theta1 + 0.5 * dt * k1.dTheta1,
-      theta2 + 0.5 * dt * k1.dTheta2,
-      omega1 + 0.5 * dt * k1.dOmega1,
-      omega2 + 0.5 * dt * k1.dOmega2
-    );
-    
-    // k3
-    const k3 = calculateDerivatives(
-      theta1 + 0.5 * dt * k2.dTheta1,
-      theta2 + 0.5 * dt * k2.dTheta2,
-      omega1 + 0.5 * dt * k2.dOmega1,
-      omega2 + 0.5 * dt * k2.dOmega2
-    );
-    
-    // k4
-    const k4 = calculateDerivatives(
-      theta1 + dt * k3.dTheta1,
-      theta2 + dt * k3.dTheta2,
-      omega1 + dt * k3.dOmega1,
-      omega2 + dt * k3.dOmega2
-    );
-    
-    // Combine all k values with RK4 weights
-    const newTheta1 = skipRod1Physics ? theta1 : theta1 + (dt / 6) * (k1.dTheta1 + 2 * k2.dTheta1 + 2 * k3.dTheta1 + k4.dTheta1);
-    const newTheta2 = skipRod2Physics ? theta2 : theta2 + (dt / 6) * (k1.dTheta2 + 2 * k2.dTheta2 + 2 * k3.dTheta2 + k4.dTheta2);
-    const newOmega1 = skipRod1Physics ? omega1 : omega1 + (dt / 6) * (k1.dOmega1 + 2 * k2.dOmega1 + 2 * k3.dOmega1 + k4.dOmega1);
-    const newOmega2 = skipRod2Physics ? omega2 : omega2 + (dt / 6) * (k1.dOmega2 + 2 * k2.dOmega2 + 2 * k3.dOmega2 + k4.dOmega2);
-    
-    setOmega1(newOmega1);
-    setOmega2(newOmega2);
-    setTheta1(newTheta1);
-    setTheta2(newTheta2);
+  // Pose the rod meshes from the shared rod kinematics
+  const poseRods = (theta1: number, theta2: number, t: number, params: PendulumParams) => {
+    const placement = placeRods(theta1, theta2, drivenLayout(rodLayout, params, t));
 
-    // Update visual representation
-    // Calculate unit vectors for pendulum rods
-    const x1 = Math.sin(newTheta1);
-    const y1 = -Math.cos(newTheta1);
-    // Rod 2 angle should be relative to rod 1's angle (absolute angle in world space)
-    const absoluteTheta2 = newTheta1 + newTheta2;
-    const x2 = Math.sin(absoluteTheta2);
-    const y2 = -Math.cos(absoluteTheta2);
-    
-    // Calculate pivot position along rod1 based on pivotPosition parameter
-    // pivotPosition: 0 = at apex (basePivot), 1 = at end of rod1
-    // The pivot moves along rod1 in the direction of theta1
-    const pivotOffset = pivotPosition * rod1Length;
-    const pivotX = basePivotX + pivotOffset * x1;
-    const pivotY = basePivotY + pivotOffset * y1;
-    
-    // First rod: positioned at pivot, extends in direction of theta1
+    // The A-frame rides along with a driven apex
+    if (supportsRef.current) {
+      const { x, y } = pivotDisplacement(params, t);
+      supportsRef.current.position.set(x, y, 0);
+    }
+
+    // First rod: centred halfway along its length, rotated to theta1
     if (rod1Ref.current) {
-      // Rod center is at pivot + half rod length in the direction of theta1
-      const rod1CenterX = pivotX + (0.5 * rod1Length) * x1;
-      const rod1CenterY = pivotY + (0.5 * rod1Length) * y1;
-      rod1Ref.current.position.set(rod1CenterX, rod1CenterY, rod1ZDisplacement);
-      rod1Ref.current.rotation.z = newTheta1;
+      rod1Ref.current.position.set(placement.rod1Center.x, placement.rod1Center.y, rod1ZDisplacement);
+      rod1Ref.current.rotation.z = theta1;
     }
 
     // Second rod: attaches to adjustable position along first rod, with adjustable pivot along its own length
     if (rod2Ref.current) {
-      // Calculate where rod 2 attaches to rod 1
-      // rod2AttachmentPosition: 0 = at rod 1's pivot, 1 = at end of rod 1
-      const attachmentDistance = rod2AttachmentPosition * rod1Length;
-      const rod2AttachmentX = pivotX + attachmentDistance * x1;
-      const rod2AttachmentY = pivotY + attachmentDistance * y1;
-      
-      // Calculate the pivot point along rod 2's length
-      // rod2PivotPosition: 0 = at attachment point (where rod 2 connects to rod 1), 1 = at end of rod 2
-      const rod2PivotOffset = rod2PivotPosition * rod2Length;
-      const rod2PivotX = rod2AttachmentX + rod2PivotOffset * x2;
-      const rod2PivotY = rod2AttachmentY + rod2PivotOffset * y2;
-      
-      // Position rod 2's center relative to its pivot point
-      // The rod extends from the pivot point, so center is at pivot + half length in direction of theta2
-      const rod2CenterX = rod2PivotX + (0.5 * rod2Length) * x2;
-      const rod2CenterY = rod2PivotY + (0.5 * rod2Length) * y2;
-      
-      rod2Ref.current.position.set(rod2CenterX, rod2CenterY, rod2ZDisplacement);
-      rod2Ref.current.rotation.z = absoluteTheta2;
+      rod2Ref.current.position.set(placement.rod2Center.x, placement.rod2Center.y, rod2ZDisplacement);
+      rod2Ref.current.rotation.z = theta2;
     }
-  });
-
-  // Silver metallic material
-  const silverMaterial = {
-    color: '#C0C0C0',
-    roughness: 0.2,
-    metalness: 0.95,
-    envMapIntensity: 1.2,
+    rod2Tip.set(placement.rod2Tip.x, placement.rod2Tip.y, rod2ZDisplacement);
+    return placement;
   };
 
+  // Physics simulation stepped through the shared engine with the selected integrator
+  useFrame((state, delta) => {
+    if (benchmark.active()) benchmark.recordFrame(delta * 1000);
+
+    // The chain and the spherical pendulum run their own simulations while they replace the rods.
+    // The chain is never driven, so the A-frame settles back to rest for it
+    if (!planar) {
+      if (chainMode) supportsRef.current?.position.set(0, 0, 0);
+      return;
+    }
+
+    // While replaying a recording the live run is frozen and the rods show the recorded frame
+    if (recorder.status().replaying) {
+      const frame = recorder.tick(Math.min(delta, 0.1) * simulationSpeed);
+      if (frame) poseRods(frame.state.theta1, frame.state.theta2, frame.state.t, frame.params);
+      return;
+    }
+
+    // Skip physics for dragged rod in position fix mode
+    const heldRods = [...dragsRef.current.values()].map(({ rod }) => rod);
+    const skipRod1Physics = mode === 'positionFix' && heldRods.includes(1);
+    const skipRod2Physics = mode === 'positionFix' && heldRods.includes(2);
+    // The live state comes from the store, where the last frame, a drag or a reset left it
+    const physicsState = store.get();
+
+    // Simulated time to cover this frame; long stalls (e.g. a background tab) are clamped
+    const simulatedTime = Math.min(delta, 0.1) * simulationSpeed;
+
+    // Substep at a fixed physics dt so accuracy does not depend on frame rate or speed,
+    // holding the dragged rod where the pointer put it. With the controller on it picks a torque every substep
+    const { state: next, accumulator } = controlEnabled
+      ? advanceControlledFrame(physicsState, physicsParams, controller, controllerSettings, simulatedTime, accumulatorRef.current, stepConfig)
+      : advanceFrame(physicsState, physicsParams, simulatedTime, accumulatorRef.current, stepConfig);
+    accumulatorRef.current = accumulator;
+    const newTheta1 = skipRod1Physics ? physicsState.theta1 : next.theta1;
+    const newTheta2 = skipRod2Physics ? physicsState.theta2 : next.theta2;
+    const newOmega1 = skipRod1Physics ? physicsState.omega1 : next.omega1;
+    const newOmega2 = skipRod2Physics ? physicsState.omega2 : next.omega2;
+
+    const newState: PendulumState = {
+      t: next.t,
+      theta1: newTheta1,
+      theta2: newTheta2,
+      omega1: newOmega1,
+      omega2: newOmega2,
+    };
+    store.set(newState);
+    if (benchmark.phase() === 'reactState') setReactState(newState);
+    // Published parameters carry the controller's latest torque so diagnostics see the drive
+    const publishedParams = controlEnabled ? { ...physicsParams, controlTorque: controller.lastOutput().torque } : physicsParams;
+    feed.publish({ state: newState, params: publishedParams, stepConfig });
+    recorder.record(newState, publishedParams);
+
+    // Update visual representation
+    const placement = poseRods(newTheta1, newTheta2, newState.t, physicsParams);
+
+    // Record the free ends of the rods for the motion trails
+    if (showTrails) {
+      const frameTime = newState.t - physicsState.t;
+      const totalEnergy = trailColorMode === 'energy' ? energy(newState, physicsParams).total : 0;
+      const pushTip = (trail: TrailBuffer, previous: THREE.Vector3, x: number, y: number, z: number) => {
+        const speed = trail.count > 0 && frameTime > 0 ? previous.distanceTo(tipScratch.set(x, y, z)) / frameTime : 0;
+        trail.push(x, y, z, trailColorMode === 'energy' ? totalEnergy : speed);
+        previous.set(x, y, z);
+      };
+      pushTip(rod2Trail, rod2TipRef.current, placement.rod2Tip.x, placement.rod2Tip.y, rod2ZDisplacement);
+      if (trailRod1) {
+        pushTip(rod1Trail, rod1TipRef.current, placement.rod1Tip.x, placement.rod1Tip.y, rod1ZDisplacement);
+      }
+    }
+  });
+
   // Black matte base material
   const blackMaterial = {
     color: '#000000',
@@ -401,59 +731,167 @@ export default function Pendulum({ mode }: PendulumProps) {
         <meshStandardMaterial {...blackMaterial} />
       </mesh>
 
-      {/* Left Angled Support - slants inward from left edge to apex */}
-      <mesh 
-        position={[
-          (-baseSpacing + (-apexHalfSpacing)) / 2,
-          (baseY + apexY) / 2,
-          0
-        ]}
-        rotation={[0, 0, leftSupportAngle]}
-        castShadow 
-        receiveShadow
-      >
-        <cylinderGeometry args={[rodThickness, rodThickness, leftSupportLength, 16]} />
-        <meshStandardMaterial {...silverMaterial} />
-      </mesh>
+      {/* Supports grouped so a driven pivot can shake the whole A-frame */}
+      <group ref={supportsRef}>
+        {/* Left Angled Support - slants inward from left edge to apex */}
+        <mesh 
+          position={[
+            (-baseSpacing + (-apexHalfSpacing)) / 2,
+            (baseY + apexY) / 2,
+            0
+          ]}
+          rotation={[0, 0, leftSupportAngle]}
+          castShadow 
+          receiveShadow
+        >
+          <cylinderGeometry args={[rodThickness, rodThickness, leftSupportLength, radialSegments]} />
+          <meshStandardMaterial {...SILVER_MATERIAL} />
+        </mesh>
 
-      {/* Right Angled Support - slants inward from right edge to apex */}
-      <mesh 
-        position={[
-          (baseSpacing + apexHalfSpacing) / 2,
-          (baseY + apexY) / 2,
-          0
-        ]}
-        rotation={[0, 0, rightSupportAngle]}
-        castShadow 
-        receiveShadow
-      >
-        <cylinderGeometry args={[rodThickness, rodThickness, rightSupportLength, 16]} />
-        <meshStandardMaterial {...silverMaterial} />
-      </mesh>
+        {/* Right Angled Support - slants inward from right edge to apex */}
+        <mesh 
+          position={[
+            (baseSpacing + apexHalfSpacing) / 2,
+            (baseY + apexY) / 2,
+            0
+          ]}
+          rotation={[0, 0, rightSupportAngle]}
+          castShadow 
+          receiveShadow
+        >
+          <cylinderGeometry args={[rodThickness, rodThickness, rightSupportLength, radialSegments]} />
+          <meshStandardMaterial {...SILVER_MATERIAL} />
+        </mesh>
+
+        {/* Controller torque on joint 1, riding along with the apex */}
+        {controlEnabled && planar && (
+          <TorqueArrow controller={controller} maxTorque={maxTorque} position={[basePivotX, basePivotY, rod1ZDisplacement + 0.05]} />
+        )}
+      </group>
 
       {/* First Pendulum Rod (Longer, heavier) */}
-      <group ref={rod1Ref}>
+      <group ref={rod1Ref} visible={planar}>
         <mesh 
           ref={rod1MeshRef}
           castShadow 
           receiveShadow
         >
-          <cylinderGeometry args={[rodThickness, rodThickness, rod1Length, 16]} />
-          <meshStandardMaterial {...silverMaterial} />
+          <cylinderGeometry args={[rodThickness, rodThickness, rod1Length, radialSegments]} />
+          <meshStandardMaterial {...SILVER_MATERIAL} />
         </mesh>
       </group>
 
       {/* Second Pendulum Rod (Shorter, lighter) */}
-      <group ref={rod2Ref}>
+      <group ref={rod2Ref} visible={planar}>
         <mesh 
           ref={rod2MeshRef}
           castShadow 
           receiveShadow
         >
-          <cylinderGeometry args={[rodThickness * 0.8, rodThickness * 0.8, rod2Length, 16]} />
-          <meshStandardMaterial {...silverMaterial} />
+          <cylinderGeometry args={[rodThickness * 0.8, rodThickness * 0.8, rod2Length, radialSegments]} />
+          <meshStandardMaterial {...SILVER_MATERIAL} />
         </mesh>
       </group>
+
+      {/* Perturbed copies for the butterfly-effect ensemble */}
+      {showEnsemble && planar && (
+        <PendulumEnsemble
+          feed={feed}
+          recorder={recorder}
+          count={ensembleCount}
+          epsilon={ensembleEpsilon}
+          opacity={ensembleOpacity}
+          initialConditions={{ initialTheta1Deg, initialTheta2Deg, initialOmega1 }}
+          params={physicsParams}
+          stepConfig={stepConfig}
+          simulationSpeed={simulationSpeed}
+          rodLayout={rodLayout}
+          rodThickness={rodThickness}
+          radialSegments={radialSegments}
+          rod1ZDisplacement={rod1ZDisplacement}
+          rod2ZDisplacement={rod2ZDisplacement}
+        />
+      )}
+
+      {/* The same pendulum built from Rapier rigid bodies, checked against this one */}
+      {physicsBackend === 'rapier' && planar && !rapierBlock && (
+        <RapierPendulum
+          feed={feed}
+          recorder={recorder}
+          params={physicsParams}
+          stepConfig={stepConfig}
+          simulationSpeed={simulationSpeed}
+          rodLayout={rodLayout}
+          rodThickness={rodThickness}
+          radialSegments={radialSegments}
+          rod1ZDisplacement={rod1ZDisplacement}
+          rod2ZDisplacement={rod2ZDisplacement}
+        />
+      )}
+
+      {/* Pendulum B of an A/B comparison, overlaid or beside this one */}
+      {compareMode && planar && (
+        <ComparisonPendulum
+          feed={feed}
+          layout={compareLayout}
+          params={physicsParams}
+          stepConfig={stepConfig}
+          rodLayout={rodLayout}
+          frame={frameGeometry}
+          baseDepth={baseDepth}
+          rodThickness={rodThickness}
+          radialSegments={radialSegments}
+          rod1ZDisplacement={rod1ZDisplacement}
+          rod2ZDisplacement={rod2ZDisplacement}
+        />
+      )}
+
+      {/* Motion trails of the rod tips, fed by the spherical pendulum while it runs */}
+      {showTrails && !chainMode && (
+        <MotionTrail buffer={rod2Trail} colorMode={trailColorMode} color="#e11d48" width={trailWidth} fadeTo={SCENE_BACKGROUND} />
+      )}
+      {showTrails && trailRod1 && !chainMode && (
+        <MotionTrail buffer={rod1Trail} colorMode={trailColorMode} color="#2563eb" width={trailWidth} fadeTo={SCENE_BACKGROUND} />
+      )}
+
+      {/* N-link chain hung from the same apex */}
+      {chainMode && (
+        <ChainPendulum
+          feed={feed}
+          apex={rodLayout.apex}
+          model={dynamicsModel}
+          gravity={gravity}
+          simulationSpeed={simulationSpeed}
+          stepConfig={stepConfig}
+          rodThickness={rodThickness}
+          radialSegments={radialSegments}
+          zDisplacement={rod1ZDisplacement}
+        />
+      )}
+
+      {/* Spherical double pendulum hung from the same apex */}
+      {sphericalMode && (
+        <SphericalPendulum
+          feed={feed}
+          params={physicsParams}
+          rodLayout={rodLayout}
+          initialTheta1={(initialTheta1Deg * Math.PI) / 180}
+          initialTheta2={(initialTheta2Deg * Math.PI) / 180}
+          initialOmega1={initialOmega1}
+          azimuthalVelocity1={azimuthalVelocity1}
+          azimuthalVelocity2={azimuthalVelocity2}
+          simulationSpeed={simulationSpeed}
+          stepConfig={stepConfig}
+          rodThickness={rodThickness}
+          radialSegments={radialSegments}
+          rod1ZDisplacement={rod1ZDisplacement}
+          rod2ZDisplacement={rod2ZDisplacement}
+          rod1Trail={showTrails && trailRod1 ? rod1Trail : null}
+          rod2Trail={showTrails ? rod2Trail : null}
+          trailColorMode={trailColorMode}
+          supportsRef={supportsRef}
+        />
+      )}
     </group>
   );
 }
@@ -0,0 +1,135 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { createInitialState, type FrameStepperConfig } from '@/lib/physics/engine';
+import { advanceEnsemble, createEnsemble } from '@/lib/physics/ensemble';
+import { drivenLayout } from '@/lib/physics/forcing';
+import { placeRods, type RodLayout } from '@/lib/physics/kinematics';
+import type { InitialConditions, PendulumParams, PendulumState } from '@/lib/physics/types';
+import type { SimulationFeed } from '@/lib/simulationFeed';
+import type { RunRecorder } from '@/lib/runRecorder';
+
+interface PendulumEnsembleProps {
+  feed: SimulationFeed;
+  recorder: RunRecorder;
+  count: number;
+  epsilon: number; // Step in initial theta1 between neighbouring copies (radians)
+  opacity: number;
+  initialConditions: InitialConditions;
+  params: PendulumParams;
+  stepConfig: FrameStepperConfig;
+  simulationSpeed: number;
+  rodLayout: RodLayout;
+  rodThickness: number;
+  radialSegments: number;
+  rod1ZDisplacement: number;
+  rod2ZDisplacement: number;
+}
+
+// Hundreds of thin copies gain nothing from rounder rods, so they stop here at any quality
+const MAX_SEGMENTS = 12;
+
+// Butterfly-effect ensemble: many copies of the pendulum with slightly perturbed
+// starting angles, drawn as two instanced meshes so hundreds of copies stay smooth
+export default function PendulumEnsemble({
+  feed,
+  recorder,
+  count,
+  epsilon,
+  opacity,
+  initialConditions,
+  params,
+  stepConfig,
+  simulationSpeed,
+  rodLayout,
+  rodThickness,
+  radialSegments,
+  rod1ZDisplacement,
+  rod2ZDisplacement,
+}: PendulumEnsembleProps) {
+  const rod1MeshRef = useRef<THREE.InstancedMesh>(null);
+  const rod2MeshRef = useRef<THREE.InstancedMesh>(null);
+  const statesRef = useRef<PendulumState[]>([]);
+  const accumulatorRef = useRef(0);
+  const { initialTheta1Deg, initialTheta2Deg, initialOmega1 } = initialConditions;
+
+  // Start the ensemble over whenever its definition changes
+  useEffect(() => {
+    const base = createInitialState({ initialTheta1Deg, initialTheta2Deg, initialOmega1 });
+    statesRef.current = createEnsemble(base, count, epsilon);
+    accumulatorRef.current = 0;
+  }, [count, epsilon, initialTheta1Deg, initialTheta2Deg, initialOmega1]);
+
+  // ...and together with the main pendulum on Reset
+  useEffect(() => feed.onReset((state) => {
+    statesRef.current = createEnsemble(state, count, epsilon);
+    accumulatorRef.current = 0;
+  }), [feed, count, epsilon]);
+
+  // Spread the copies around the colour wheel
+  useEffect(() => {
+    const color = new THREE.Color();
+    for (let i = 0; i < count; i++) {
+      color.setHSL(i / count, 0.85, 0.55);
+      rod1MeshRef.current?.setColorAt(i, color);
+      rod2MeshRef.current?.setColorAt(i, color);
+    }
+    for (const mesh of [rod1MeshRef.current, rod2MeshRef.current]) {
+      if (mesh?.instanceColor) mesh.instanceColor.needsUpdate = true;
+    }
+  }, [count]);
+
+  const dummy = useRef(new THREE.Object3D());
+
+  useFrame((_state, delta) => {
+    const rod1Mesh = rod1MeshRef.current;
+    const rod2Mesh = rod2MeshRef.current;
+    if (!rod1Mesh || !rod2Mesh) return;
+    // The copies only make sense alongside the live run, so they hold still during a replay
+    if (recorder.status().replaying) return;
+
+    const simulatedTime = Math.min(delta, 0.1) * simulationSpeed;
+    const result = advanceEnsemble(statesRef.current, params, simulatedTime, accumulatorRef.current, stepConfig);
+    statesRef.current = result.states;
+    accumulatorRef.current = result.accumulator;
+
+    const object = dummy.current;
+    result.states.forEach((s, i) => {
+      const placement = placeRods(s.theta1, s.theta2, drivenLayout(rodLayout, params, s.t));
+
+      object.position.set(placement.rod1Center.x, placement.rod1Center.y, rod1ZDisplacement);
+      object.rotation.set(0, 0, s.theta1);
+      object.updateMatrix();
+      rod1Mesh.setMatrixAt(i, object.matrix);
+
+      object.position.set(placement.rod2Center.x, placement.rod2Center.y, rod2ZDisplacement);
+      object.rotation.set(0, 0, s.theta2);
+      object.updateMatrix();
+      rod2Mesh.setMatrixAt(i, object.matrix);
+    });
+    rod1Mesh.instanceMatrix.needsUpdate = true;
+    rod2Mesh.instanceMatrix.needsUpdate = true;
+  });
+
+  const segments = Math.min(radialSegments, MAX_SEGMENTS);
+
+  // Transparent copies do not write depth so overlapping rods blend instead of hiding each other
+  const material = (
+    <meshStandardMaterial transparent opacity={opacity} depthWrite={false} roughness={0.4} metalness={0.3} />
+  );
+
+  return (
+    <group>
+      <instancedMesh key={`rod1-${count}`} ref={rod1MeshRef} args={[undefined, undefined, count]} frustumCulled={false}>
+        <cylinderGeometry args={[rodThickness, rodThickness, rodLayout.rod1Length, segments]} />
+        {material}
+      </instancedMesh>
+      <instancedMesh key={`rod2-${count}`} ref={rod2MeshRef} args={[undefined, undefined, count]} frustumCulled={false}>
+        <cylinderGeometry args={[rodThickness * 0.8, rodThickness * 0.8, rodLayout.rod2Length, segments]} />
+        {material}
+      </instancedMesh>
+    </group>
+  );
+}
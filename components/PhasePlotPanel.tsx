@@ -0,0 +1,245 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useControls } from 'leva';
+import { poincareCrossing, wrapAngle, type PoincarePoint } from '@/lib/physics/phaseSpace';
+import type { PendulumState } from '@/lib/physics/types';
+import type { SimulationFeed } from '@/lib/simulationFeed';
+import PlanarOnlyNotice from './PlanarOnlyNotice';
+
+type PlotView = 'phase1' | 'phase2' | 'timeSeries' | 'poincare';
+
+interface PhasePlotPanelProps {
+  feed: SimulationFeed;
+}
+
+const VIEWS: { id: PlotView; label: string; title: string }[] = [
+  { id: 'phase1', label: 'θ₁–ω₁', title: 'Phase portrait of rod 1' },
+  { id: 'phase2', label: 'θ₂–ω₂', title: 'Phase portrait of rod 2' },
+  { id: 'timeSeries', label: 'θ(t)', title: 'Angles against time' },
+  { id: 'poincare', label: 'Poincaré', title: 'θ₂–ω₂ sampled when θ₁ crosses 0 with ω₁ > 0' },
+];
+
+const PLOT_SIZE = 320;
+const MAX_TRAJECTORY_POINTS = 6000;
+const MAX_POINCARE_POINTS = 20000;
+const TIME_WINDOW_SECONDS = 20;
+const OMEGA_RANGE = 10; // rad/s shown at zoom 1
+const MIN_ZOOM = 0.25;
+const MAX_ZOOM = 32;
+
+const THETA1_COLOR = '#f59e0b';
+const THETA2_COLOR = '#38bdf8';
+
+// Streaming 2D plots of the live simulation for teaching phase space and chaos
+export default function PhasePlotPanel({ feed }: PhasePlotPanelProps) {
+  const { showPhasePlot } = useControls('Diagnostics', {
+    showPhasePlot: { value: true, label: '🌀 Phase Plot Panel' },
+  }, { collapsed: true });
+
+  const [view, setView] = useState<PlotView>('phase1');
+  const [paused, setPaused] = useState(false);
+  const [zoom, setZoom] = useState(1);
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const trajectoryRef = useRef<PendulumState[]>([]);
+  const poincareRef = useRef<PoincarePoint[]>([]);
+  const previousRef = useRef<PendulumState | null>(null);
+  const pausedRef = useRef(paused);
+
+  useEffect(() => {
+    pausedRef.current = paused;
+  }, [paused]);
+
+  const clear = () => {
+    trajectoryRef.current = [];
+    poincareRef.current = [];
+    previousRef.current = null;
+  };
+
+  // Stream samples from the live simulation
+  useEffect(() => {
+    const unsubscribe = feed.subscribe(({ state }) => {
+      if (pausedRef.current) return;
+
+      const previous = previousRef.current;
+      if (previous) {
+        const crossing = poincareCrossing(previous, state);
+        if (crossing) {
+          poincareRef.current.push(crossing);
+          if (poincareRef.current.length > MAX_POINCARE_POINTS) poincareRef.current.shift();
+        }
+      }
+      previousRef.current = state;
+
+      trajectoryRef.current.push(state);
+      if (trajectoryRef.current.length > MAX_TRAJECTORY_POINTS) trajectoryRef.current.shift();
+    });
+    const unsubscribeReset = feed.onReset(() => {
+      trajectoryRef.current = [];
+      poincareRef.current = [];
+      previousRef.current = null;
+    });
+    return () => {
+      unsubscribe();
+      unsubscribeReset();
+    };
+  }, [feed]);
+
+  // Redraw every animation frame
+  useEffect(() => {
+    if (!showPhasePlot) return;
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = PLOT_SIZE * dpr;
+    canvas.height = PLOT_SIZE * dpr;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+
+    const thetaRange = Math.PI / zoom;
+    const omegaRange = OMEGA_RANGE / zoom;
+    const toX = (value: number, range: number) => PLOT_SIZE / 2 + (value / range) * (PLOT_SIZE / 2);
+    const toY = (value: number, range: number) => PLOT_SIZE / 2 - (value / range) * (PLOT_SIZE / 2);
+
+    const drawAxes = (xLabel: string, yLabel: string) => {
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.25)';
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      ctx.moveTo(0, PLOT_SIZE / 2);
+      ctx.lineTo(PLOT_SIZE, PLOT_SIZE / 2);
+      ctx.moveTo(PLOT_SIZE / 2, 0);
+      ctx.lineTo(PLOT_SIZE / 2, PLOT_SIZE);
+      ctx.stroke();
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.6)';
+      ctx.font = '11px sans-serif';
+      ctx.fillText(xLabel, PLOT_SIZE - 24, PLOT_SIZE / 2 - 6);
+      ctx.fillText(yLabel, PLOT_SIZE / 2 + 6, 12);
+    };
+
+    // Polyline that breaks wherever the wrapped angle jumps across ±π
+    const drawPhase = (angle: (s: PendulumState) => number, omega: (s: PendulumState) => number, color: string) => {
+      ctx.strokeStyle = color;
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      let previousAngle: number | null = null;
+      for (const s of trajectoryRef.current) {
+        const a = wrapAngle(angle(s));
+        const x = toX(a, thetaRange);
+        const y = toY(omega(s), omegaRange);
+        if (previousAngle === null || Math.abs(a - previousAngle) > Math.PI) ctx.moveTo(x, y);
+        else ctx.lineTo(x, y);
+        previousAngle = a;
+      }
+      ctx.stroke();
+    };
+
+    const drawTimeSeries = () => {
+      const points = trajectoryRef.current;
+      if (points.length === 0) return;
+      const tEnd = points[points.length - 1].t;
+      const tStart = tEnd - TIME_WINDOW_SECONDS / zoom;
+      const toTimeX = (t: number) => ((t - tStart) / (tEnd - tStart)) * PLOT_SIZE;
+
+      for (const [angle, color] of [
+        [(s: PendulumState) => s.theta1, THETA1_COLOR],
+        [(s: PendulumState) => s.theta2, THETA2_COLOR],
+      ] as const) {
+        ctx.strokeStyle = color;
+        ctx.lineWidth = 1.5;
+        ctx.beginPath();
+        let previousAngle: number | null = null;
+        for (const s of points) {
+          if (s.t < tStart) continue;
+          const a = wrapAngle(angle(s));
+          const x = toTimeX(s.t);
+          const y = toY(a, Math.PI);
+          if (previousAngle === null || Math.abs(a - previousAngle) > Math.PI) ctx.moveTo(x, y);
+          else ctx.lineTo(x, y);
+          previousAngle = a;
+        }
+        ctx.stroke();
+      }
+    };
+
+    const drawPoincare = () => {
+      ctx.fillStyle = THETA2_COLOR;
+      for (const p of poincareRef.current) {
+        ctx.fillRect(toX(p.theta2, thetaRange) - 1, toY(p.omega2, omegaRange) - 1, 2, 2);
+      }
+    };
+
+    let frame = 0;
+    const draw = () => {
+      ctx.clearRect(0, 0, PLOT_SIZE, PLOT_SIZE);
+      if (view === 'phase1') {
+        drawAxes('θ₁', 'ω₁');
+        drawPhase((s) => s.theta1, (s) => s.omega1, THETA1_COLOR);
+      } else if (view === 'phase2') {
+        drawAxes('θ₂', 'ω₂');
+        drawPhase((s) => s.theta2, (s) => s.omega2, THETA2_COLOR);
+      } else if (view === 'timeSeries') {
+        drawAxes('t', 'θ');
+        drawTimeSeries();
+      } else {
+        drawAxes('θ₂', 'ω₂');
+        drawPoincare();
+      }
+      frame = requestAnimationFrame(draw);
+    };
+    frame = requestAnimationFrame(draw);
+    return () => cancelAnimationFrame(frame);
+  }, [showPhasePlot, view, zoom]);
+
+  if (!showPhasePlot) return null;
+
+  const zoomBy = (factor: number) => setZoom((z) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, z * factor)));
+
+  const chipClass = (active: boolean) =>
+    `px-2.5 py-1 rounded-full transition-all duration-200 cursor-pointer ${
+      active ? 'bg-white/30 text-white' : 'bg-white/10 text-white/70 hover:bg-white/20'
+    }`;
+
+  return (
+    <aside className="h-full w-[360px] shrink-0 flex flex-col gap-3 p-5 bg-neutral-900 text-white/90 text-xs overflow-y-auto">
+      <div className="flex items-center justify-between">
+        <span className="font-semibold text-sm">Phase Space</span>
+        <span className="tabular-nums text-white/60">zoom ×{zoom.toFixed(2)}</span>
+      </div>
+      <PlanarOnlyNotice feed={feed} />
+
+      <div className="flex flex-wrap gap-1.5">
+        {VIEWS.map(({ id, label, title }) => (
+          <button key={id} onClick={() => setView(id)} className={chipClass(view === id)} title={title}>
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <canvas
+        ref={canvasRef}
+        style={{ width: PLOT_SIZE, height: PLOT_SIZE }}
+        className="rounded-lg bg-black/40"
+        onWheel={(event) => zoomBy(event.deltaY < 0 ? 1.25 : 0.8)}
+      />
+
+      {view === 'timeSeries' && (
+        <div className="flex gap-3">
+          <span style={{ color: THETA1_COLOR }}>— θ₁</span>
+          <span style={{ color: THETA2_COLOR }}>— θ₂</span>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-1.5">
+        <button onClick={() => setPaused((p) => !p)} className={chipClass(paused)}>
+          {paused ? '▶ Resume' : '⏸ Pause'}
+        </button>
+        <button onClick={() => zoomBy(1.5)} className={chipClass(false)} aria-label="Zoom in">＋</button>
+        <button onClick={() => zoomBy(1 / 1.5)} className={chipClass(false)} aria-label="Zoom out">－</button>
+        <button onClick={() => setZoom(1)} className={chipClass(false)}>1:1</button>
+        <button onClick={clear} className={chipClass(false)}>Clear</button>
+      </div>
+    </aside>
+  );
+}
@@ -0,0 +1,28 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { SimulationFeed, SimulationModel } from '@/lib/simulationFeed';
+
+interface PlanarOnlyNoticeProps {
+  feed: SimulationFeed;
+}
+
+const MODEL_NAMES: Record<Exclude<SimulationModel, 'planar'>, string> = {
+  chain: 'N-link chain',
+  spherical: 'Spherical 3D mode',
+};
+
+// Line shown in a readout panel while the planar pendulum it follows is off screen, so a
+// frozen chart is not mistaken for the chain or spherical pendulum
+export default function PlanarOnlyNotice({ feed }: PlanarOnlyNoticeProps) {
+  const [model, setModel] = useState(feed.model);
+  useEffect(() => feed.onModelChange(setModel), [feed]);
+
+  if (model === 'planar') return null;
+
+  return (
+    <div className="mb-2 rounded-lg bg-amber-500/20 px-2 py-1 text-amber-100">
+      Unavailable in {MODEL_NAMES[model]}: this readout follows the planar pendulum and is paused
+    </div>
+  );
+}
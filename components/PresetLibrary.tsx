@@ -0,0 +1,87 @@
+'use client';
+
+import { useState } from 'react';
+import { button, levaStore, useControls } from 'leva';
+import { createInitialState } from '@/lib/physics/engine';
+import {
+  BUILT_IN_PRESETS,
+  loadUserPresets,
+  parsePresets,
+  saveUserPresets,
+  upsertPreset,
+  type Preset,
+} from '@/lib/presets';
+import { applySettings, readInitialConditions, readSettings } from '@/lib/settingsSnapshot';
+import { shareUrl } from '@/lib/shareLink';
+import { downloadText, pickFile } from '@/lib/download';
+import type { SimulationFeed } from '@/lib/simulationFeed';
+
+interface PresetLibraryProps {
+  feed: SimulationFeed;
+}
+
+// Built-in and user presets plus a shareable link, all in the Presets folder of the panel
+export default function PresetLibrary({ feed }: PresetLibraryProps) {
+  const [userPresets, setUserPresets] = useState<Preset[]>(loadUserPresets);
+
+  const updateUserPresets = (presets: Preset[]) => {
+    saveUserPresets(presets);
+    setUserPresets(presets);
+  };
+
+  const isBuiltIn = (name: string) => BUILT_IN_PRESETS.some((preset) => preset.name === name);
+  const selectedName = (): string => levaStore.get('Presets.preset');
+  const names = [...BUILT_IN_PRESETS, ...userPresets].map((preset) => preset.name);
+
+  // Schema is rebuilt whenever the user presets change so the list stays current
+  useControls('Presets', {
+    preset: { value: names[0], options: names, label: '📚 Preset' },
+    'Load Preset': button(() => {
+      const preset = [...BUILT_IN_PRESETS, ...userPresets].find((p) => p.name === selectedName());
+      if (!preset) return;
+      applySettings(preset.settings);
+      feed.requestState(createInitialState(readInitialConditions()));
+    }),
+    'Save Current As…': button(() => {
+      const name = window.prompt('Preset name')?.trim();
+      if (!name) return;
+      if (isBuiltIn(name)) {
+        window.alert(`"${name}" is a built-in preset; choose another name.`);
+        return;
+      }
+      updateUserPresets(upsertPreset(userPresets, { name, settings: readSettings() }));
+    }),
+    'Rename Preset': button(() => {
+      const current = selectedName();
+      if (isBuiltIn(current)) return;
+      const name = window.prompt('New name', current)?.trim();
+      if (!name || names.includes(name)) return;
+      updateUserPresets(userPresets.map((p) => (p.name === current ? { ...p, name } : p)));
+    }),
+    'Delete Preset': button(() => {
+      const current = selectedName();
+      if (isBuiltIn(current) || !window.confirm(`Delete preset "${current}"?`)) return;
+      updateUserPresets(userPresets.filter((p) => p.name !== current));
+    }),
+    'Import Presets': button(async () => {
+      const file = await pickFile('application/json,.json');
+      if (!file) return;
+      try {
+        const imported = parsePresets(await file.text()).filter((p) => !isBuiltIn(p.name));
+        updateUserPresets(imported.reduce(upsertPreset, userPresets));
+      } catch {
+        window.alert(`Could not import ${file.name}: the file is not a preset list.`);
+      }
+    }),
+    'Export Presets': button(() => {
+      downloadText('pendulum-presets.json', JSON.stringify(userPresets, null, 2), 'application/json');
+    }),
+    'Copy Share Link': button(() => {
+      const url = shareUrl(readSettings());
+      window.history.replaceState(null, '', url);
+      navigator.clipboard?.writeText(url);
+    }),
+  }, { collapsed: true }, [userPresets]);
+
+  return null;
+}
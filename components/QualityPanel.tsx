@@ -0,0 +1,77 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useControls } from 'leva';
+import { summarizeFrames, type FrameBenchmark, type FrameTimeSummary } from '@/lib/frameBenchmark';
+import { QUALITY_MODE_OPTIONS, QUALITY_PRESETS, type AdaptiveQuality, type QualityMode, type QualityTier } from '@/lib/renderQuality';
+
+interface QualityPanelProps {
+  quality: AdaptiveQuality;
+  tier: QualityTier;
+  benchmark: FrameBenchmark;
+}
+
+const SAMPLE_INTERVAL_MS = 1000;
+const WINDOW_FRAMES = 120; // About two seconds at 60 fps
+
+// Rendering quality setting, the automatic tier choice and the optional FPS overlay. Frame
+// times are the intervals between animation frames, timed here only while auto mode or the
+// overlay needs them, so the render loop itself carries no instrumentation
+export default function QualityPanel({ quality, tier, benchmark }: QualityPanelProps) {
+  const { qualityMode, showFps } = useControls('Rendering', {
+    qualityMode: { value: 'auto' as QualityMode, options: QUALITY_MODE_OPTIONS, label: '🖥️ Quality' },
+    showFps: { value: false, label: '📊 FPS Overlay' },
+  }, { collapsed: true });
+
+  const [live, setLive] = useState<FrameTimeSummary | null>(null);
+
+  useEffect(() => quality.setMode(qualityMode), [quality, qualityMode]);
+
+  useEffect(() => {
+    if (qualityMode !== 'auto' && !showFps) return;
+    const frames: number[] = [];
+    let last = performance.now();
+    let frame = 0;
+    const tick = (now: number) => {
+      frames.push(now - last);
+      if (frames.length > WINDOW_FRAMES) frames.shift();
+      last = now;
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+
+    const id = window.setInterval(() => {
+      // The benchmark's React state phase is slow on purpose; it says nothing about the tier
+      if (benchmark.phase() !== 'idle') {
+        frames.length = 0;
+        return;
+      }
+      const summary = summarizeFrames(frames, []);
+      if (!summary) return;
+      quality.sample(summary);
+      setLive(summary);
+    }, SAMPLE_INTERVAL_MS);
+    return () => {
+      cancelAnimationFrame(frame);
+      window.clearInterval(id);
+    };
+  }, [quality, benchmark, qualityMode, showFps]);
+
+  if (!showFps) return null;
+
+  return (
+    <div className="glass-container rounded-2xl px-4 py-3 text-white/90 text-xs w-[312px]">
+      <div className="flex items-center justify-between">
+        <span className="font-semibold text-sm tabular-nums">{live ? `${live.fps.toFixed(0)} fps` : '—'}</span>
+        <span className="text-white/60">
+          {QUALITY_PRESETS[tier].label}{qualityMode === 'auto' ? ' (auto)' : ''}
+        </span>
+      </div>
+      <div className="flex justify-between mt-1 tabular-nums">
+        <span>Mean {live ? `${live.meanMs.toFixed(1)} ms` : '—'}</span>
+        <span>p95 {live ? `${live.p95Ms.toFixed(1)} ms` : '—'}</span>
+        <span>Worst {live ? `${live.worstMs.toFixed(1)} ms` : '—'}</span>
+      </div>
+    </div>
+  );
+}
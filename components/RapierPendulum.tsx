@@ -0,0 +1,257 @@
+'use client';
+
+import { Suspense, useCallback, useEffect, useRef, type RefObject } from 'react';
+import { useFrame } from '@react-three/fiber';
+import {
+  CylinderCollider,
+  interactionGroups,
+  Physics,
+  RigidBody,
+  useRapier,
+  useRevoluteJoint,
+  type RapierRigidBody,
+} from '@react-three/rapier';
+import { dissipativeForces } from '@/lib/physics/dissipation';
+import { planSubsteps, type FrameStepperConfig } from '@/lib/physics/engine';
+import { driveTorque, pivotDisplacement } from '@/lib/physics/forcing';
+import type { RodLayout } from '@/lib/physics/kinematics';
+import {
+  bodyPoses,
+  quaternionAngle,
+  rigidBodyModel,
+  unwrapAngle,
+  type BodyPose,
+  type RigidRod,
+} from '@/lib/physics/rigidBodies';
+import type { PendulumParams, PendulumState } from '@/lib/physics/types';
+import type { SimulationFeed } from '@/lib/simulationFeed';
+import type { RunRecorder } from '@/lib/runRecorder';
+
+interface RapierPendulumProps {
+  feed: SimulationFeed;
+  recorder: RunRecorder;
+  params: PendulumParams;
+  stepConfig: FrameStepperConfig;
+  simulationSpeed: number;
+  rodLayout: RodLayout;
+  rodThickness: number;
+  radialSegments: number;
+  rod1ZDisplacement: number;
+  rod2ZDisplacement: number;
+}
+
+const RAPIER_COLOR = '#f97316';
+// The rods only meet through their joints, never through contacts
+const NO_CONTACTS = interactionGroups([], []);
+const Z_AXIS: [number, number, number] = [0, 0, 1];
+
+// Rapier's own mass properties, replacing whatever it would derive from the collider shape
+const massPropertiesOf = (rod: RigidRod) => ({
+  mass: rod.mass,
+  centerOfMass: { x: rod.centerOfMass.x, y: rod.centerOfMass.y, z: 0 },
+  // Only the z inertia matters to a planar swing; the others just keep the solver well conditioned
+  principalAngularInertia: { x: rod.inertia, y: rod.inertia, z: rod.inertia },
+  angularInertiaLocalFrame: { x: 0, y: 0, z: 0, w: 1 },
+});
+
+function placeBody(body: RapierRigidBody, pose: BodyPose) {
+  body.setTranslation({ x: pose.position.x, y: pose.position.y, z: 0 }, true);
+  body.setRotation({ x: 0, y: 0, z: Math.sin(pose.angle / 2), w: Math.cos(pose.angle / 2) }, true);
+  body.setLinvel({ x: pose.velocity.x, y: pose.velocity.y, z: 0 }, true);
+  body.setAngvel({ x: 0, y: 0, z: pose.angularVelocity }, true);
+}
+
+// The two rods as Rapier rigid bodies on revolute joints, stepped with the same fixed
+// substeps as the analytic pendulum and checked against it every frame
+function RapierRig({
+  feed,
+  recorder,
+  params,
+  stepConfig,
+  simulationSpeed,
+  rodLayout,
+  rodThickness,
+  radialSegments,
+  rod1ZDisplacement,
+  rod2ZDisplacement,
+}: RapierPendulumProps) {
+  const { step } = useRapier();
+  const apexRef = useRef<RapierRigidBody>(null);
+  const rod1Ref = useRef<RapierRigidBody>(null);
+  const rod2Ref = useRef<RapierRigidBody>(null);
+  // Simulated time and whole-turn angles, which Rapier's quaternions do not keep
+  const clockRef = useRef({ t: 0, accumulator: 0, theta1: 0, theta2: 0, synced: false });
+  const analyticRef = useRef<PendulumState | null>(null);
+  // Balancing controller output as last published by the analytic pendulum
+  const controlTorqueRef = useRef(0);
+  const comparedRef = useRef(-1);
+  // Latest props for the feed listeners, which stay subscribed across renders
+  const latestRef = useRef({ params, rodLayout, stepConfig });
+  useEffect(() => {
+    latestRef.current = { params, rodLayout, stepConfig };
+  });
+
+  const model = rigidBodyModel(params, rodLayout);
+  // The joint hooks are typed for React 18 refs, which did not include null
+  const apexBody = apexRef as RefObject<RapierRigidBody>;
+  const rod1Body = rod1Ref as RefObject<RapierRigidBody>;
+  const rod2Body = rod2Ref as RefObject<RapierRigidBody>;
+  useRevoluteJoint(apexBody, rod1Body, [[0, 0, 0], [model.apexAnchor.x, model.apexAnchor.y, 0], Z_AXIS]);
+  useRevoluteJoint(rod1Body, rod2Body, [
+    [model.joint2OnRod1.x, model.joint2OnRod1.y, 0],
+    [model.joint2OnRod2.x, model.joint2OnRod2.y, 0],
+    Z_AXIS,
+  ]);
+  const rest = bodyPoses({ t: 0, theta1: 0, theta2: 0, omega1: 0, omega2: 0 }, params, rodLayout);
+
+  const readState = useCallback((): PendulumState | null => {
+    const rod1 = rod1Ref.current;
+    const rod2 = rod2Ref.current;
+    if (!rod1 || !rod2) return null;
+    const clock = clockRef.current;
+    return {
+      t: clock.t,
+      theta1: clock.theta1,
+      theta2: clock.theta2,
+      omega1: rod1.angvel().z,
+      omega2: rod2.angvel().z,
+    };
+  }, []);
+
+  // Each frame the two solvers reach the same time; whichever gets there second publishes
+  const compare = useCallback(() => {
+    const { params, stepConfig } = latestRef.current;
+    const analytic = analyticRef.current;
+    const rapier = readState();
+    if (!analytic || !rapier || analytic.t === comparedRef.current) return;
+    if (Math.abs(analytic.t - rapier.t) > stepConfig.fixedDt / 2) return;
+    comparedRef.current = analytic.t;
+    feed.publishComparison({ analytic, rapier, params });
+  }, [feed, readState]);
+
+  // Start from wherever the analytic pendulum is: on mount (including after a geometry
+  // change rebuilt the bodies) and on every Reset
+  useEffect(() => {
+    const sync = (state: PendulumState) => {
+      const { params, rodLayout } = latestRef.current;
+      const apex = apexRef.current;
+      const rod1 = rod1Ref.current;
+      const rod2 = rod2Ref.current;
+      if (!apex || !rod1 || !rod2) return;
+      const shift = pivotDisplacement(params, state.t);
+      apex.setTranslation({ x: rodLayout.apex.x + shift.x, y: rodLayout.apex.y + shift.y, z: 0 }, true);
+      const poses = bodyPoses(state, params, rodLayout);
+      placeBody(rod1, poses.rod1);
+      placeBody(rod2, poses.rod2);
+      clockRef.current = { t: state.t, accumulator: 0, theta1: state.theta1, theta2: state.theta2, synced: true };
+      analyticRef.current = state;
+      comparedRef.current = state.t;
+    };
+    const unsubscribe = feed.subscribe(({ state, params }) => {
+      controlTorqueRef.current = params.controlTorque ?? 0;
+      if (!clockRef.current.synced) {
+        sync(state);
+        return;
+      }
+      analyticRef.current = state;
+      compare();
+    });
+    const unsubscribeReset = feed.onReset(sync);
+    return () => {
+      unsubscribe();
+      unsubscribeReset();
+      clockRef.current.synced = false;
+    };
+  }, [feed, compare]);
+
+  // Tell the divergence readout when the backend goes away
+  useEffect(() => () => feed.publishComparison(null), [feed]);
+
+  useFrame((_state, delta) => {
+    const apex = apexRef.current;
+    const rod1 = rod1Ref.current;
+    const rod2 = rod2Ref.current;
+    const clock = clockRef.current;
+    if (!apex || !rod1 || !rod2 || !clock.synced) return;
+    // Frozen along with the analytic run during a replay
+    if (recorder.status().replaying) return;
+
+    const dt = stepConfig.fixedDt;
+    // The controller runs on the analytic state, once per substep; Rapier holds its latest
+    // output for the frame
+    const driven = { ...params, controlTorque: controlTorqueRef.current };
+    const plan = planSubsteps(Math.min(delta, 0.1) * simulationSpeed, clock.accumulator, stepConfig);
+    clock.accumulator = plan.accumulator;
+    for (let i = 0; i < plan.substeps; i++) {
+      // Damping, friction, drag and the drive torque are generalized forces on the absolute
+      // angles, which are exactly the bodies' rotations, so each goes on as a torque impulse
+      const state = readState();
+      if (!state) return;
+      const { q1, q2 } = dissipativeForces(state, params);
+      rod1.applyTorqueImpulse({ x: 0, y: 0, z: (q1 + driveTorque(driven, clock.t)) * dt }, true);
+      rod2.applyTorqueImpulse({ x: 0, y: 0, z: q2 * dt }, true);
+      const shift = pivotDisplacement(params, clock.t + dt);
+      apex.setNextKinematicTranslation({ x: rodLayout.apex.x + shift.x, y: rodLayout.apex.y + shift.y, z: 0 });
+
+      step(dt);
+      clock.t += dt;
+      clock.theta1 = unwrapAngle(clock.theta1, quaternionAngle(rod1.rotation()));
+      clock.theta2 = unwrapAngle(clock.theta2, quaternionAngle(rod2.rotation()));
+    }
+    compare();
+  });
+
+  const material = <meshStandardMaterial color={RAPIER_COLOR} transparent opacity={0.6} roughness={0.4} metalness={0.3} />;
+
+  return (
+    <>
+      <RigidBody ref={apexRef} type="kinematicPosition" colliders={false} position={[rodLayout.apex.x, rodLayout.apex.y, 0]} />
+      <RigidBody
+        ref={rod1Ref}
+        colliders={false}
+        canSleep={false}
+        position={[rest.rod1.position.x, rest.rod1.position.y, 0]}
+      >
+        <CylinderCollider
+          args={[rodLayout.rod1Length / 2, rodThickness]}
+          massProperties={massPropertiesOf(model.rod1)}
+          collisionGroups={NO_CONTACTS}
+        />
+        <mesh position={[0, 0, rod1ZDisplacement]}>
+          <cylinderGeometry args={[rodThickness * 1.1, rodThickness * 1.1, rodLayout.rod1Length, radialSegments]} />
+          {material}
+        </mesh>
+      </RigidBody>
+      <RigidBody
+        ref={rod2Ref}
+        colliders={false}
+        canSleep={false}
+        position={[rest.rod2.position.x, rest.rod2.position.y, 0]}
+      >
+        <CylinderCollider
+          args={[rodLayout.rod2Length / 2, rodThickness * 0.8]}
+          massProperties={massPropertiesOf(model.rod2)}
+          collisionGroups={NO_CONTACTS}
+        />
+        <mesh position={[0, 0, rod2ZDisplacement]}>
+          <cylinderGeometry args={[rodThickness * 0.9, rodThickness * 0.9, rodLayout.rod2Length, radialSegments]} />
+          {material}
+        </mesh>
+      </RigidBody>
+    </>
+  );
+}
+
+// Rapier rigid-body pendulum drawn in orange over the analytic one. Rapier steps only when
+// told to, in the same fixed substeps, and the bodies are rebuilt whenever the geometry or
+// masses change. Its WebAssembly loads on first use without holding up the rest of the scene
+export default function RapierPendulum(props: RapierPendulumProps) {
+  const bodiesKey = JSON.stringify([rigidBodyModel(props.params, props.rodLayout), props.rodLayout.apex]);
+  return (
+    <Suspense fallback={null}>
+      <Physics paused timeStep="vary" gravity={[0, -props.params.gravity, 0]}>
+        <RapierRig key={bodiesKey} {...props} />
+      </Physics>
+    </Suspense>
+  );
+}
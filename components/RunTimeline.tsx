@@ -0,0 +1,131 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { button, useControls } from 'leva';
+import type { RunRecorder } from '@/lib/runRecorder';
+import { createRunDocument, documentFrames, parseRunDocument, runToCsv } from '@/lib/runExport';
+import { applySettings, readSettings } from '@/lib/settingsSnapshot';
+import { downloadText, pickFile, timestampedName } from '@/lib/download';
+import { PauseIcon, PlayIcon, ReverseIcon, StepBackIcon, StepForwardIcon } from './Icons';
+
+interface RunTimelineProps {
+  recorder: RunRecorder;
+}
+
+const buttonClass =
+  'glass-button w-9 h-9 rounded-full transition-all duration-300 flex items-center justify-center cursor-pointer hover:scale-110 active:scale-95 text-white/90 hover:text-white';
+
+// Play, pause, step, reverse and scrub through the recorded run
+export default function RunTimeline({ recorder }: RunTimelineProps) {
+  const [status, setStatus] = useState(recorder.status);
+  const sliderRef = useRef<HTMLInputElement>(null);
+  const timeRef = useRef<HTMLSpanElement>(null);
+
+  useEffect(() => recorder.onStatusChange(setStatus), [recorder]);
+
+  // Get recorded runs out for analysis elsewhere, and load them back in
+  useControls('Recording', {
+    'Export CSV': button(() => {
+      const frames = recorder.frames();
+      if (frames.length === 0) return;
+      downloadText(timestampedName('pendulum-run', 'csv'), runToCsv(frames), 'text/csv');
+    }),
+    'Export JSON': button(() => {
+      const frames = recorder.frames();
+      if (frames.length === 0) return;
+      const doc = createRunDocument(frames, readSettings());
+      downloadText(timestampedName('pendulum-run', 'json'), JSON.stringify(doc), 'application/json');
+    }),
+    'Import JSON': button(async () => {
+      const file = await pickFile('application/json,.json');
+      if (!file) return;
+      try {
+        const doc = parseRunDocument(await file.text());
+        // Restore the panel first so resuming continues with the imported parameters
+        applySettings(doc.settings);
+        recorder.load(documentFrames(doc));
+      } catch (error) {
+        window.alert(`Could not import ${file.name}: ${error instanceof Error ? error.message : error}`);
+      }
+    }),
+  }, { collapsed: true });
+
+  // The slider and time readout follow the run every animation frame without re-rendering
+  useEffect(() => {
+    let frame = 0;
+    const update = () => {
+      const frames = recorder.frames();
+      const slider = sliderRef.current;
+      const label = timeRef.current;
+      if (slider && label) {
+        const start = frames[0]?.state.t ?? 0;
+        const end = frames[frames.length - 1]?.state.t ?? 0;
+        const t = recorder.status().replaying ? recorder.currentFrame()?.state.t ?? start : end;
+        slider.min = String(start);
+        slider.max = String(end);
+        // Leave the thumb alone while it is being dragged
+        if (document.activeElement !== slider) slider.value = String(t);
+        label.textContent = `${t.toFixed(2)} / ${end.toFixed(2)} s`;
+      }
+      frame = requestAnimationFrame(update);
+    };
+    frame = requestAnimationFrame(update);
+    return () => cancelAnimationFrame(frame);
+  }, [recorder]);
+
+  const { replaying, playing, direction } = status;
+
+  // Pausing the live run drops into replay on the latest frame
+  const togglePlay = () => {
+    if (!replaying) recorder.enterReplay();
+    else if (playing) recorder.pause();
+    else recorder.play(1);
+  };
+
+  return (
+    <div className="glass-container rounded-full px-4 py-2 flex gap-2 items-center w-[560px] max-w-[90vw] text-white/90 text-xs">
+      <button
+        onClick={() => (playing && direction === -1 ? recorder.pause() : recorder.play(-1))}
+        className={buttonClass}
+        title="Play backwards"
+        aria-label="Play backwards"
+      >
+        {playing && direction === -1 ? <PauseIcon size={16} className="icon-glow" /> : <ReverseIcon size={16} className="icon-glow" />}
+      </button>
+      <button onClick={() => recorder.stepFrame(-1)} className={buttonClass} title="Previous frame" aria-label="Previous frame">
+        <StepBackIcon size={16} className="icon-glow" />
+      </button>
+      <button
+        onClick={togglePlay}
+        className={buttonClass}
+        title={!replaying || playing ? 'Pause' : 'Play'}
+        aria-label={!replaying || playing ? 'Pause' : 'Play'}
+      >
+        {!replaying || playing ? <PauseIcon size={16} className="icon-glow" /> : <PlayIcon size={16} className="icon-glow" />}
+      </button>
+      <button onClick={() => recorder.stepFrame(1)} className={buttonClass} title="Next frame" aria-label="Next frame">
+        <StepForwardIcon size={16} className="icon-glow" />
+      </button>
+
+      <input
+        ref={sliderRef}
+        type="range"
+        step="any"
+        onChange={(e) => recorder.seek(Number(e.target.value))}
+        onPointerUp={(e) => e.currentTarget.blur()}
+        className="flex-1 min-w-0 accent-white cursor-pointer"
+        aria-label="Scrub through the recorded run"
+      />
+      <span ref={timeRef} className="tabular-nums whitespace-nowrap w-[104px] text-right" />
+
+      <button
+        onClick={() => recorder.resume()}
+        disabled={!replaying}
+        className="px-3 py-1.5 rounded-full bg-white/10 hover:bg-white/20 transition-all duration-200 cursor-pointer font-semibold disabled:opacity-40 disabled:cursor-default"
+        title="Continue the simulation from this moment (later frames are discarded)"
+      >
+        {replaying ? 'Resume' : '● Live'}
+      </button>
+    </div>
+  );
+}
@@ -1,215 +1,243 @@
 'use client';
 
-import { Canvas, useThree } from '@react-three/fiber';
-import { OrbitControls, Environment, PerspectiveCamera } from '@react-three/drei';
-import { Suspense, useState, useRef, useCallback, useEffect } from 'react';
+import { Canvas, type RootState } from '@react-three/fiber';
+import { Environment } from '@react-three/drei';
+import { Suspense, Profiler, useState, useRef, useCallback, useEffect } from 'react';
 import { EffectComposer, Bloom, SSAO } from '@react-three/postprocessing';
 import Pendulum from './Pendulum';
-import { RefreshIcon, LockIcon, LeftArrowIcon, UpArrowIcon, HomeIcon } from './Icons';
+import CameraControls from './CameraControls';
+import EnergyPanel from './EnergyPanel';
+import PhasePlotPanel from './PhasePlotPanel';
+import LyapunovPanel from './LyapunovPanel';
+import ChaosMapPanel from './ChaosMapPanel';
+import BackendDivergencePanel from './BackendDivergencePanel';
+import FrameTimePanel from './FrameTimePanel';
+import QualityPanel from './QualityPanel';
+import ComparisonPanel from './ComparisonPanel';
+import RunTimeline from './RunTimeline';
+import PresetLibrary from './PresetLibrary';
+import CaptureControls from './CaptureControls';
+import { createSimulationFeed } from '@/lib/simulationFeed';
+import { createSimulationStore } from '@/lib/simulationStore';
+import { createFrameBenchmark } from '@/lib/frameBenchmark';
+import { createInitialState, DEFAULT_INITIAL_CONDITIONS } from '@/lib/physics/engine';
+import { createRunRecorder } from '@/lib/runRecorder';
+import { createAdaptiveQuality, QUALITY_PRESETS } from '@/lib/renderQuality';
+import { BUILT_IN_VIEWS, createCameraDirector } from '@/lib/cameraViews';
+import { RefreshIcon, LockIcon, LeftArrowIcon, UpArrowIcon, HomeIcon, FrontViewIcon } from './Icons';
 import * as THREE from 'three';
 
 type ViewMode = 'free' | 'positionFix';
 
-// Component to handle camera presets inside the Canvas
-function CameraControls({ 
-  mode, 
-  setMode, 
-  cameraPreset,
-  controlsRef
-}: { 
-  mode: ViewMode; 
-  setMode: (mode: ViewMode) => void;
-  cameraPreset: { preset: 'side' | 'top' | 'default' | null; timestamp: number };
-  controlsRef: React.MutableRefObject<any>;
-}) {
-  const { camera } = useThree();
-
-  // Camera preset positions
-  const cameraPresets = {
-    side: { position: [8, 2, 0] as [number, number, number], target: [0, 2, 0] as [number, number, number] },
-    top: { position: [0, 10, 0] as [number, number, number], target: [0, 0, 0] as [number, number, number] },
-    default: { position: [6, 4, 8] as [number, number, number], target: [0, 2, 0] as [number, number, number] },
-  };
-
-  useEffect(() => {
-    if (cameraPreset.preset && camera && controlsRef.current) {
-      const presetData = cameraPresets[cameraPreset.preset];
-      camera.position.set(...presetData.position);
-      camera.lookAt(...presetData.target);
-      controlsRef.current.target.set(...presetData.target);
-      controlsRef.current.update();
-    }
-  }, [cameraPreset.timestamp, camera, controlsRef.current]);
-
-  return (
-    <OrbitControls
-      ref={controlsRef}
-      enablePan={true}
-      enableZoom={true}
-      enableRotate={mode === 'free'}
-      minDistance={3}
-      maxDistance={25}
-      maxPolarAngle={Math.PI / 2}
-    />
-  );
-}
-
 export default function Scene() {
   const [mode, setMode] = useState<ViewMode>('free');
-  const [cameraPreset, setCameraPreset] = useState<{ preset: 'side' | 'top' | 'default' | null; timestamp: number }>({
-    preset: null,
-    timestamp: 0
-  });
-  const controlsRef = useRef<any>(null);
-
-  const applyCameraPreset = useCallback((preset: 'side' | 'top' | 'default') => {
-    setCameraPreset({ preset, timestamp: Date.now() });
-  }, []);
+  // Camera moves requested from the control bar, carried out inside the Canvas
+  const [director] = useState(createCameraDirector);
+  // Rod 2's tip, for the follow cam
+  const [rod2Tip] = useState(() => new THREE.Vector3());
+  // Live simulation stream shared by the 3D pendulum and the HTML overlays
+  const [feed] = useState(createSimulationFeed);
+  // Live pendulum state, written by the frame loop without re-rendering anything
+  const [store] = useState(() => createSimulationStore(createInitialState(DEFAULT_INITIAL_CONDITIONS)));
+  const [benchmark] = useState(createFrameBenchmark);
+  const [recorder] = useState(createRunRecorder);
+  // Rendering quality tier, fixed in the Rendering folder or chosen from the frame time
+  const [quality] = useState(createAdaptiveQuality);
+  const [tier, setTier] = useState(quality.tier);
+  useEffect(() => quality.onChange(setTier), [quality]);
+  const settings = QUALITY_PRESETS[tier];
+  // R3F root state, for capturing the canvas from outside it
+  const rootRef = useRef<RootState | null>(null);
+  const getRoot = useCallback(() => rootRef.current, []);
 
   return (
-    <div className="w-full h-full relative">
-      <Canvas
-        shadows
-        gl={{ 
-          antialias: true, 
-          alpha: false,
-          powerPreference: 'high-performance',
-        }}
-        style={{ background: '#e8e8e8' }}
-      >
-        <Suspense fallback={null}>
-
-          {/* Lighting for metallic materials - even, soft lighting */}
-          <ambientLight intensity={0.6} />
-          <directionalLight
-            position={[5, 8, 5]}
-            intensity={1.2}
-            castShadow
-            shadow-mapSize-width={2048}
-            shadow-mapSize-height={2048}
-            shadow-camera-left={-10}
-            shadow-camera-right={10}
-            shadow-camera-top={10}
-            shadow-camera-bottom={-10}
-          />
-          <directionalLight
-            position={[-5, 6, -5]}
-            intensity={0.5}
-          />
-
-          {/* Camera */}
-          <PerspectiveCamera 
-            makeDefault 
-            position={[6, 4, 8]} 
-            fov={60} 
-          />
-
-          {/* Pendulum with custom physics */}
-          <Pendulum mode={mode} />
-
-          {/* Environment for reflections */}
-          <Environment preset="city" background={false} />
-
-          {/* Post-processing Effects */}
-          <EffectComposer enableNormalPass>
-            <Bloom 
-              intensity={0.4} 
-              luminanceThreshold={0.8}
-              luminanceSmoothing={0.9}
+    <div className="w-full h-full flex">
+      {/* 2D phase-space and time-series plots beside the 3D view */}
+      <PhasePlotPanel feed={feed} />
+
+      <div className="flex-1 h-full relative min-w-0">
+        <Canvas
+          shadows={settings.shadows}
+          dpr={[1, settings.maxDpr]}
+          gl={{ 
+            antialias: true, 
+            alpha: false,
+            powerPreference: 'high-performance',
+          }}
+          style={{ background: '#e8e8e8' }}
+          onCreated={(state) => {
+            rootRef.current = state;
+          }}
+        >
+          <Suspense fallback={null}>
+
+            {/* Lighting for metallic materials - even, soft lighting */}
+            <ambientLight intensity={0.6} />
+            {/* Keyed by shadow map size, since a light's shadow map is allocated only once */}
+            <directionalLight
+              key={settings.shadowMapSize}
+              position={[5, 8, 5]}
+              intensity={1.2}
+              castShadow={settings.shadows}
+              shadow-mapSize-width={settings.shadowMapSize}
+              shadow-mapSize-height={settings.shadowMapSize}
+              shadow-camera-left={-10}
+              shadow-camera-right={10}
+              shadow-camera-top={10}
+              shadow-camera-bottom={-10}
             />
-            <SSAO
-              samples={31}
-              radius={0.1}
-              intensity={50}
+            <directionalLight
+              position={[-5, 6, -5]}
+              intensity={0.5}
             />
-          </EffectComposer>
-
-          {/* Controls */}
-          <CameraControls 
-            mode={mode} 
-            setMode={setMode} 
-            cameraPreset={cameraPreset}
-            controlsRef={controlsRef}
-          />
-        </Suspense>
-      </Canvas>
-
-      {/* Custom circular buttons at the bottom - Apple Liquid Glass Style */}
-      <div className="absolute bottom-[180px] left-1/2 transform -translate-x-1/2 flex gap-6 z-10 items-center glass-container rounded-full px-4 py-3">
-        {/* Mode Toggle Button */}
-        <button
-          onClick={() => setMode(mode === 'free' ? 'positionFix' : 'free')}
-          className="glass-button w-14 h-14 rounded-full transition-all duration-300 flex items-center justify-center cursor-pointer hover:scale-110 active:scale-95 text-white/90 hover:text-white"
-          title={mode === 'free' ? 'Free Mode' : 'Position Fix Mode'}
-          aria-label={mode === 'free' ? 'Switch to Position Fix Mode' : 'Switch to Free Mode'}
-        >
-          {mode === 'free' ? (
-            <RefreshIcon size={22} className="icon-glow" />
-          ) : (
-            <LockIcon size={22} className="icon-glow" />
-          )}
-        </button>
-
-        {/* Side View Button */}
-        <button
-          onClick={() => applyCameraPreset('side')}
-          className="glass-button w-14 h-14 rounded-full transition-all duration-300 flex items-center justify-center cursor-pointer hover:scale-110 active:scale-95 text-white/90 hover:text-white"
-          title="Side View"
-          aria-label="Switch to Side View"
-        >
-          <LeftArrowIcon size={22} className="icon-glow" />
-        </button>
-
-        {/* Top View Button */}
-        <button
-          onClick={() => applyCameraPreset('top')}
-          className="glass-button w-14 h-14 rounded-full transition-all duration-300 flex items-center justify-center cursor-pointer hover:scale-110 active:scale-95 text-white/90 hover:text-white"
-          title="Top View"
-          aria-label="Switch to Top View"
-        >
-          <UpArrowIcon size={22} className="icon-glow" />
-        </button>
-
-        {/* Default View Button */}
-        <button
-          onClick={() => applyCameraPreset('default')}
-          className="glass-button w-14 h-14 rounded-full transition-all duration-300 flex items-center justify-center cursor-pointer hover:scale-110 active:scale-95 text-white/90 hover:text-white"
-          title="Default View"
-          aria-label="Switch to Default View"
-        >
-          <HomeIcon size={22} className="icon-glow" />
-        </button>
-      </div>
 
-      {/* Social Links Footer - Apple Liquid Glass Style */}
-      <div className="absolute bottom-[116px] left-1/2 transform -translate-x-1/2 flex gap-5 z-10 items-center glass-container rounded-full px-6 py-3">
-        <a
-          href="https://github.com/SimonSaysGiveMeSmile/simons-chaotic-pendulum"
-          target="_blank"
-          rel="noopener noreferrer"
-          className="glass-link px-5 py-2.5 rounded-full transition-all duration-300 text-sm font-semibold cursor-pointer whitespace-nowrap hover:scale-105 active:scale-95 text-white/90 hover:text-white"
-          title="GitHub Repository"
-        >
-          GitHub
-        </a>
-        <a
-          href="https://www.linkedin.com/in/simon-tian-1333a3156/"
-          target="_blank"
-          rel="noopener noreferrer"
-          className="glass-link px-5 py-2.5 rounded-full transition-all duration-300 text-sm font-semibold cursor-pointer whitespace-nowrap hover:scale-105 active:scale-95 text-white/90 hover:text-white"
-          title="LinkedIn Profile"
-        >
-          LinkedIn
-        </a>
-        <a
-          href="https://www.hisimon.pro/"
-          target="_blank"
-          rel="noopener noreferrer"
-          className="glass-link px-5 py-2.5 rounded-full transition-all duration-300 text-sm font-semibold cursor-pointer whitespace-nowrap hover:scale-105 active:scale-95 text-white/90 hover:text-white"
-          title="Personal Website"
-        >
-          Portfolio
-        </a>
+            {/* Pendulum with custom physics, profiled for the frame-time benchmark. The Profiler always
+                wraps it, so opening the panel does not remount it, but commits only count while the panel is open */}
+            <Profiler id="pendulum" onRender={(_id, _phase, actualDuration) => benchmark.recordCommit(actualDuration)}>
+              <Pendulum mode={mode} feed={feed} store={store} recorder={recorder} benchmark={benchmark} rod2Tip={rod2Tip} radialSegments={settings.radialSegments} />
+            </Profiler>
+
+            {/* Environment for reflections */}
+            {settings.environment && <Environment preset="city" background={false} />}
+
+            {/* Post-processing Effects, as far as the quality tier allows. SSAO needs the normal pass */}
+            {settings.ssao ? (
+              <EffectComposer enableNormalPass>
+                <Bloom 
+                  intensity={0.4} 
+                  luminanceThreshold={0.8}
+                  luminanceSmoothing={0.9}
+                />
+                <SSAO
+                  samples={settings.ssao.samples}
+                  radius={0.1}
+                  intensity={settings.ssao.intensity}
+                />
+              </EffectComposer>
+            ) : settings.bloom ? (
+              <EffectComposer>
+                <Bloom 
+                  intensity={0.4} 
+                  luminanceThreshold={0.8}
+                  luminanceSmoothing={0.9}
+                />
+              </EffectComposer>
+            ) : null}
+
+            {/* Camera and controls */}
+            <CameraControls mode={mode} director={director} followTarget={rod2Tip} />
+          </Suspense>
+        </Canvas>
+
+        {/* Diagnostics overlays: energy and conservation drift, Lyapunov exponent, chaos map, backend divergence, A/B difference, frame time, FPS */}
+        <div className="absolute top-4 left-4 z-10 flex flex-col gap-3">
+          <EnergyPanel feed={feed} />
+          <LyapunovPanel feed={feed} />
+          <ChaosMapPanel feed={feed} />
+          <BackendDivergencePanel feed={feed} />
+          <ComparisonPanel feed={feed} />
+          <FrameTimePanel store={store} benchmark={benchmark} />
+          <QualityPanel quality={quality} tier={tier} benchmark={benchmark} />
+        </div>
+
+        {/* Custom circular buttons at the bottom - Apple Liquid Glass Style */}
+        <div className="absolute bottom-[252px] left-1/2 transform -translate-x-1/2 flex gap-6 z-10 items-center glass-container rounded-full px-4 py-3">
+          {/* Mode Toggle Button */}
+          <button
+            onClick={() => setMode(mode === 'free' ? 'positionFix' : 'free')}
+            className="glass-button w-14 h-14 rounded-full transition-all duration-300 flex items-center justify-center cursor-pointer hover:scale-110 active:scale-95 text-white/90 hover:text-white"
+            title={mode === 'free' ? 'Free Mode' : 'Position Fix Mode'}
+            aria-label={mode === 'free' ? 'Switch to Position Fix Mode' : 'Switch to Free Mode'}
+          >
+            {mode === 'free' ? (
+              <RefreshIcon size={22} className="icon-glow" />
+            ) : (
+              <LockIcon size={22} className="icon-glow" />
+            )}
+          </button>
+
+          {/* Side View Button */}
+          <button
+            onClick={() => director.goTo(BUILT_IN_VIEWS.side)}
+            className="glass-button w-14 h-14 rounded-full transition-all duration-300 flex items-center justify-center cursor-pointer hover:scale-110 active:scale-95 text-white/90 hover:text-white"
+            title="Side View"
+            aria-label="Switch to Side View"
+          >
+            <LeftArrowIcon size={22} className="icon-glow" />
+          </button>
+
+          {/* Top View Button */}
+          <button
+            onClick={() => director.goTo(BUILT_IN_VIEWS.top)}
+            className="glass-button w-14 h-14 rounded-full transition-all duration-300 flex items-center justify-center cursor-pointer hover:scale-110 active:scale-95 text-white/90 hover:text-white"
+            title="Top View"
+            aria-label="Switch to Top View"
+          >
+            <UpArrowIcon size={22} className="icon-glow" />
+          </button>
+
+          {/* Front View Button - orthographic, for true 2D viewing */}
+          <button
+            onClick={() => director.goTo(BUILT_IN_VIEWS.front)}
+            className="glass-button w-14 h-14 rounded-full transition-all duration-300 flex items-center justify-center cursor-pointer hover:scale-110 active:scale-95 text-white/90 hover:text-white"
+            title="Front View (2D)"
+            aria-label="Switch to Front View"
+          >
+            <FrontViewIcon size={22} className="icon-glow" />
+          </button>
+
+          {/* Default View Button */}
+          <button
+            onClick={() => director.goTo(BUILT_IN_VIEWS.default)}
+            className="glass-button w-14 h-14 rounded-full transition-all duration-300 flex items-center justify-center cursor-pointer hover:scale-110 active:scale-95 text-white/90 hover:text-white"
+            title="Default View"
+            aria-label="Switch to Default View"
+          >
+            <HomeIcon size={22} className="icon-glow" />
+          </button>
+
+          {/* Record Button - WebM video or offline PNG/GIF frames */}
+          <CaptureControls getRoot={getRoot} />
+        </div>
+
+        {/* Preset library and share link (Leva panel only) */}
+        <PresetLibrary feed={feed} />
+
+        {/* Record / replay timeline */}
+        <div className="absolute bottom-[180px] left-1/2 transform -translate-x-1/2 z-10">
+          <RunTimeline recorder={recorder} />
+        </div>
+
+        {/* Social Links Footer - Apple Liquid Glass Style */}
+        <div className="absolute bottom-[116px] left-1/2 transform -translate-x-1/2 flex gap-5 z-10 items-center glass-container rounded-full px-6 py-3">
+          <a
+            href="https://github.com/SimonSaysGiveMeSmile/simons-chaotic-pendulum"
+            target="_blank"
+            rel="noopener noreferrer"
+            className="glass-link px-5 py-2.5 rounded-full transition-all duration-300 text-sm font-semibold cursor-pointer whitespace-nowrap hover:scale-105 active:scale-95 text-white/90 hover:text-white"
+            title="GitHub Repository"
+          >
+            GitHub
+          </a>
+          <a
+            href="https://www.linkedin.com/in/simon-tian-1333a3156/"
+            target="_blank"
+            rel="noopener noreferrer"
+            className="glass-link px-5 py-2.5 rounded-full transition-all duration-300 text-sm font-semibold cursor-pointer whitespace-nowrap hover:scale-105 active:scale-95 text-white/90 hover:text-white"
+            title="LinkedIn Profile"
+          >
+            LinkedIn
+          </a>
+          <a
+            href="https://www.hisimon.pro/"
+            target="_blank"
+            rel="noopener noreferrer"
+            className="glass-link px-5 py-2.5 rounded-full transition-all duration-300 text-sm font-semibold cursor-pointer whitespace-nowrap hover:scale-105 active:scale-95 text-white/90 hover:text-white"
+            title="Personal Website"
+          >
+            Portfolio
+          </a>
+        </div>
       </div>
     </div>
   );
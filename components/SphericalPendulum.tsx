@@ -0,0 +1,143 @@
+'use client';
+
+import { useRef, useState, type RefObject } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { planSubsteps, type FrameStepperConfig } from '@/lib/physics/engine';
+import { drivenLayout, pivotDisplacement } from '@/lib/physics/forcing';
+import {
+  createSphericalState,
+  placeSphericalRods,
+  sphericalEnergy,
+  stepSpherical,
+  type SphericalInitialConditions,
+  type Vec3,
+} from '@/lib/physics/spherical';
+import type { RodLayout } from '@/lib/physics/kinematics';
+import type { PendulumParams } from '@/lib/physics/types';
+import type { SimulationFeed } from '@/lib/simulationFeed';
+import type { TrailBuffer } from '@/lib/trailBuffer';
+import type { TrailColorMode } from './MotionTrail';
+import { SILVER_MATERIAL } from './materials';
+import { useRestartingState } from './useRestartingState';
+
+interface SphericalPendulumProps {
+  feed: SimulationFeed;
+  params: PendulumParams;
+  rodLayout: RodLayout;
+  initialTheta1: number; // In-plane starting angles (rad), shared with the planar pendulum
+  initialTheta2: number;
+  initialOmega1: number;
+  azimuthalVelocity1: number; // Initial rotation of each rod about the vertical (rad/s)
+  azimuthalVelocity2: number;
+  simulationSpeed: number;
+  stepConfig: FrameStepperConfig;
+  rodThickness: number;
+  radialSegments: number;
+  // The rods keep their depth offsets from the planar view, as if on axles of those lengths
+  rod1ZDisplacement: number;
+  rod2ZDisplacement: number;
+  rod1Trail: TrailBuffer | null; // null when that trail is hidden
+  rod2Trail: TrailBuffer | null;
+  trailColorMode: TrailColorMode;
+  supportsRef: RefObject<THREE.Group | null>; // A-frame to move along with a driven apex
+}
+
+// Cylinder meshes are built along y; point them down the rod unit vectors
+const ROD_AXIS = new THREE.Vector3(0, -1, 0);
+
+// Double pendulum on ball joints, replacing the planar rods while the Spherical 3D mode is on
+export default function SphericalPendulum({
+  feed,
+  params,
+  rodLayout,
+  initialTheta1,
+  initialTheta2,
+  initialOmega1,
+  azimuthalVelocity1,
+  azimuthalVelocity2,
+  simulationSpeed,
+  stepConfig,
+  rodThickness,
+  radialSegments,
+  rod1ZDisplacement,
+  rod2ZDisplacement,
+  rod1Trail,
+  rod2Trail,
+  trailColorMode,
+  supportsRef,
+}: SphericalPendulumProps) {
+  const initialConditions: SphericalInitialConditions = {
+    theta1: initialTheta1,
+    theta2: initialTheta2,
+    omega1: initialOmega1,
+    azimuthalVelocity1,
+    azimuthalVelocity2,
+  };
+
+  const rod1Ref = useRef<THREE.Group>(null);
+  const rod2Ref = useRef<THREE.Group>(null);
+  const rod1TipRef = useRef(new THREE.Vector3());
+  const rod2TipRef = useRef(new THREE.Vector3());
+  const [direction] = useState(() => new THREE.Vector3());
+  const [tipScratch] = useState(() => new THREE.Vector3());
+
+  // Start over whenever an initial condition changes
+  const { stateRef, accumulatorRef } = useRestartingState(
+    feed,
+    [initialTheta1, initialTheta2, initialOmega1, azimuthalVelocity1, azimuthalVelocity2].join(','),
+    () => createSphericalState(initialConditions)
+  );
+
+  const orient = (group: THREE.Group | null, center: Vec3, u: Vec3, z: number) => {
+    if (!group) return;
+    group.position.set(center[0], center[1], center[2] + z);
+    group.quaternion.setFromUnitVectors(ROD_AXIS, direction.set(u[0], u[1], u[2]));
+  };
+
+  useFrame((_state, delta) => {
+    // Same fixed-step accumulator as the planar pendulum
+    const previous = stateRef.current;
+    const plan = planSubsteps(Math.min(delta, 0.1) * simulationSpeed, accumulatorRef.current, stepConfig);
+    let next = previous;
+    for (let i = 0; i < plan.substeps; i++) next = stepSpherical(next, params, stepConfig.fixedDt);
+    stateRef.current = next;
+    accumulatorRef.current = plan.accumulator;
+
+    const placement = placeSphericalRods(next.u1, next.u2, drivenLayout(rodLayout, params, next.t));
+    orient(rod1Ref.current, placement.rod1Center, next.u1, rod1ZDisplacement);
+    orient(rod2Ref.current, placement.rod2Center, next.u2, rod2ZDisplacement);
+    const { x, y } = pivotDisplacement(params, next.t);
+    supportsRef.current?.position.set(x, y, 0);
+
+    // Trails follow the tips through all three dimensions
+    const frameTime = next.t - previous.t;
+    const totalEnergy = trailColorMode === 'energy' ? sphericalEnergy(next, params) : 0;
+    const pushTip = (trail: TrailBuffer | null, last: THREE.Vector3, point: Vec3, z: number) => {
+      if (!trail) return;
+      tipScratch.set(point[0], point[1], point[2] + z);
+      const speed = trail.count > 0 && frameTime > 0 ? last.distanceTo(tipScratch) / frameTime : 0;
+      trail.push(tipScratch.x, tipScratch.y, tipScratch.z, trailColorMode === 'energy' ? totalEnergy : speed);
+      last.copy(tipScratch);
+    };
+    pushTip(rod2Trail, rod2TipRef.current, placement.rod2Tip, rod2ZDisplacement);
+    pushTip(rod1Trail, rod1TipRef.current, placement.rod1Tip, rod1ZDisplacement);
+  });
+
+  return (
+    <group>
+      <group ref={rod1Ref}>
+        <mesh castShadow receiveShadow>
+          <cylinderGeometry args={[rodThickness, rodThickness, rodLayout.rod1Length, radialSegments]} />
+          <meshStandardMaterial {...SILVER_MATERIAL} />
+        </mesh>
+      </group>
+      <group ref={rod2Ref}>
+        <mesh castShadow receiveShadow>
+          <cylinderGeometry args={[rodThickness * 0.8, rodThickness * 0.8, rodLayout.rod2Length, radialSegments]} />
+          <meshStandardMaterial {...SILVER_MATERIAL} />
+        </mesh>
+      </group>
+    </group>
+  );
+}
@@ -0,0 +1,52 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import type { BalanceController } from '@/lib/physics/control';
+
+interface TorqueArrowProps {
+  controller: BalanceController;
+  maxTorque: number;
+  position: [number, number, number];
+  radius?: number;
+}
+
+// Three quarters of a circle, counter-clockwise from +x, for a positive torque about z
+const ARC = Math.PI * 1.5;
+const PHASE_COLORS = { swingUp: '#2563eb', balance: '#f97316' };
+
+// Curved arrow around joint 1 showing the controller's torque: it grows with the torque
+// relative to the limit, mirrors for clockwise torque and is blue during swing-up, orange
+// while balancing
+export default function TorqueArrow({ controller, maxTorque, position, radius = 0.22 }: TorqueArrowProps) {
+  const groupRef = useRef<THREE.Group>(null);
+  // Shared by the arc and the head so one colour change recolours both
+  const [material] = useState(() => new THREE.MeshStandardMaterial({ color: PHASE_COLORS.swingUp, roughness: 0.4 }));
+  // Passed in as an object, so React leaves disposing it to us
+  useEffect(() => () => material.dispose(), [material]);
+
+  useFrame(() => {
+    const group = groupRef.current;
+    if (!group) return;
+    const { torque, phase } = controller.lastOutput();
+    const size = Math.min(1, Math.abs(torque) / maxTorque);
+    group.visible = size > 0.01;
+    const scale = 0.3 + 0.7 * size;
+    group.scale.set(Math.sign(torque) * scale, scale, scale);
+    material.color.set(PHASE_COLORS[phase]);
+  });
+
+  const tube = radius * 0.08;
+  return (
+    <group ref={groupRef} position={position}>
+      <mesh material={material}>
+        <torusGeometry args={[radius, tube, 8, 48, ARC]} />
+      </mesh>
+      {/* Head at the end of the arc, pointing along it */}
+      <mesh position={[radius * Math.cos(ARC), radius * Math.sin(ARC), 0]} rotation={[0, 0, ARC]} material={material}>
+        <coneGeometry args={[tube * 3, tube * 7, 12]} />
+      </mesh>
+    </group>
+  );
+}
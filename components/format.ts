@@ -0,0 +1,13 @@
+// Number formatting shared by the overlay panels' readouts
+
+export const RAD_TO_DEG = 180 / Math.PI;
+
+// Signed degrees, switching to exponent notation for differences too small for two decimals
+export function formatDegrees(radians: number) {
+  const degrees = radians * RAD_TO_DEG;
+  return `${degrees >= 0 ? '+' : ''}${Math.abs(degrees) < 0.01 && degrees !== 0 ? degrees.toExponential(1) : degrees.toFixed(2)}°`;
+}
+
+export function formatEnergy(value: number) {
+  return Math.abs(value) >= 1000 || (value !== 0 && Math.abs(value) < 0.01) ? value.toExponential(2) : value.toFixed(3);
+}
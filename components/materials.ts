@@ -0,0 +1,7 @@
+// Brushed silver of the frame and the rods, shared by every pendulum drawn in it
+export const SILVER_MATERIAL = {
+  color: '#C0C0C0',
+  roughness: 0.2,
+  metalness: 0.95,
+  envMapIntensity: 1.2,
+};
@@ -0,0 +1,27 @@
+import { useEffect, useRef, useState } from 'react';
+import type { SimulationFeed } from '@/lib/simulationFeed';
+
+// Live state of a pendulum that runs its own simulation in place of the planar one. It starts
+// over from create() whenever restartKey changes, and together with everything else on Reset.
+// The accumulator is the fixed-step remainder carried between frames, cleared with the state
+export function useRestartingState<S>(feed: SimulationFeed, restartKey: string, create: () => S) {
+  const [initial] = useState(create);
+  const stateRef = useRef(initial);
+  const accumulatorRef = useRef(0);
+  const createRef = useRef(create);
+  useEffect(() => {
+    createRef.current = create;
+  });
+
+  useEffect(() => {
+    stateRef.current = createRef.current();
+    accumulatorRef.current = 0;
+  }, [restartKey]);
+
+  useEffect(() => feed.onReset(() => {
+    stateRef.current = createRef.current();
+    accumulatorRef.current = 0;
+  }), [feed]);
+
+  return { stateRef, accumulatorRef };
+}
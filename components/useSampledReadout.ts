@@ -0,0 +1,15 @@
+import { useEffect, useState, type RefObject } from 'react';
+
+const READOUT_INTERVAL_MS = 200; // Text readouts do not need to update every frame
+
+// The latest readout a panel keeps in a ref, copied into React state a few times a second
+// while the panel is shown
+export function useSampledReadout<R>(latestRef: RefObject<R | null>, active: boolean): R | null {
+  const [readout, setReadout] = useState<R | null>(null);
+  useEffect(() => {
+    if (!active) return;
+    const id = window.setInterval(() => setReadout(latestRef.current), READOUT_INTERVAL_MS);
+    return () => window.clearInterval(id);
+  }, [latestRef, active]);
+  return readout;
+}
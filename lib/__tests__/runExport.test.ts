@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { createRunDocument, documentFrames, parseRunDocument, runToCsv } from '../runExport';
+import { CONSERVATIVE_PARAMS } from '../physics/__tests__/fixtures';
+import { createInitialState, DEFAULT_INITIAL_CONDITIONS, simulate } from '../physics/engine';
+import type { RecordedFrame } from '../runRecorder';
+
+const settings = {
+  'Pendulum Settings.integrator': 'rk4',
+  'Pendulum Settings.integratorTolerance': 1e-6,
+  'Pendulum Settings.physicsTimeStep': 0.005,
+  'Pendulum Settings.gravity': 1,
+};
+
+// A short run whose parameters change halfway, shared between frames as the recorder does
+function recordedRun(): RecordedFrame[] {
+  const heavier = { ...CONSERVATIVE_PARAMS, rod2Mass: 8 };
+  return simulate(createInitialState(DEFAULT_INITIAL_CONDITIONS), CONSERVATIVE_PARAMS, 0.005, 0.1).map((state, i) => ({
+    state,
+    params: i < 10 ? CONSERVATIVE_PARAMS : heavier,
+  }));
+}
+
+describe('run export', () => {
+  it('round-trips frames and parameters through JSON', () => {
+    const frames = recordedRun();
+    const doc = createRunDocument(frames, settings);
+    expect(doc.params).toHaveLength(2);
+    expect(doc.integrator).toEqual({ name: 'rk4', tolerance: 1e-6, fixedDt: 0.005 });
+
+    const restored = parseRunDocument(JSON.stringify(doc));
+    expect(restored.settings).toEqual(settings);
+    expect(documentFrames(restored)).toEqual(frames);
+  });
+
+  it('fills in forcing for runs saved before it existed', () => {
+    const doc = createRunDocument(recordedRun(), settings);
+    const old = {
+      ...doc,
+      params: doc.params.map((params) => {
+        const saved: Partial<typeof params> = { ...params };
+        delete saved.pivotDriveAxis;
+        delete saved.pivotDriveAmplitude;
+        return saved;
+      }),
+    };
+    const restored = parseRunDocument(JSON.stringify(old));
+    expect(restored.params[0].pivotDriveAxis).toBe('horizontal');
+    expect(restored.params[0].pivotDriveAmplitude).toBe(0);
+  });
+
+  it('rejects files that are not run exports', () => {
+    expect(() => parseRunDocument('not json')).toThrow('not valid JSON');
+    expect(() => parseRunDocument('{"format":"something-else"}')).toThrow('not a pendulum run export');
+
+    const doc = createRunDocument(recordedRun(), settings);
+    const broken = { ...doc, frames: [{ ...doc.frames[0], theta1: null }] };
+    expect(() => parseRunDocument(JSON.stringify(broken))).toThrow('incomplete');
+  });
+
+  it('writes one CSV row per frame under the header', () => {
+    const frames = recordedRun();
+    const lines = runToCsv(frames).trimEnd().split('\n');
+    expect(lines[0]).toBe('t,theta1,theta2,omega1,omega2,tip_x,tip_y,energy');
+    expect(lines).toHaveLength(frames.length + 1);
+    expect(lines[1].split(',').map(Number)).toHaveLength(8);
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { decodeSettings, encodeSettings } from '../shareLink';
+
+const current = {
+  'Pendulum Settings.gravity': 1,
+  'Pendulum Settings.integrator': 'rk4',
+  'Forcing.rod1MomentumBoost': 1,
+  'Collisions.jointLimits': false,
+};
+
+describe('share links', () => {
+  it('round-trips numbers, strings and booleans through the hash', () => {
+    const snapshot = {
+      'Pendulum Settings.gravity': 2.5,
+      'Pendulum Settings.integrator': 'rk45',
+      'Forcing.rod1MomentumBoost': 0,
+      'Collisions.jointLimits': true,
+    };
+    expect(decodeSettings(`#${encodeSettings(snapshot)}`, current)).toEqual(snapshot);
+  });
+
+  it('finds an input by name after it moved folder', () => {
+    const saved = encodeSettings({ 'Pendulum Settings.rod1MomentumBoost': 0.4 });
+    expect(decodeSettings(saved, current)).toEqual({ 'Forcing.rod1MomentumBoost': 0.4 });
+  });
+
+  it('skips values that do not parse and names this version does not have', () => {
+    expect(decodeSettings('#gravity=abc&integrator=verlet&unknown=3', current)).toEqual({
+      'Pendulum Settings.integrator': 'verlet',
+    });
+    expect(decodeSettings('#unknown=3', current)).toBeNull();
+    expect(decodeSettings('', current)).toBeNull();
+  });
+});
@@ -0,0 +1,84 @@
+// Camera views: where the camera sits, what it looks at and how it projects. The built-ins
+// sit on the control bar; views the user saves last for the browser session
+
+export type Vec3 = [number, number, number];
+
+export type CameraProjection = 'perspective' | 'orthographic';
+
+export interface CameraView {
+  name: string;
+  position: Vec3;
+  target: Vec3;
+  projection: CameraProjection;
+}
+
+export type BuiltInView = 'default' | 'side' | 'top' | 'front';
+
+export const BUILT_IN_VIEWS: Record<BuiltInView, CameraView> = {
+  default: { name: 'Default', position: [6, 4, 8], target: [0, 2, 0], projection: 'perspective' },
+  side: { name: 'Side', position: [8, 2, 0], target: [0, 2, 0], projection: 'perspective' },
+  top: { name: 'Top', position: [0, 10, 0], target: [0, 0, 0], projection: 'perspective' },
+  // Straight at the plane the rods swing in, without perspective, for true 2D viewing
+  front: { name: 'Front (2D)', position: [0, 2, 10], target: [0, 2, 0], projection: 'orthographic' },
+};
+
+type Listener<T> = (value: T) => void;
+
+// Asks the camera inside the Canvas to glide to a view, from buttons and panels outside it
+export interface CameraDirector {
+  goTo(view: CameraView): void;
+  onGoTo(listener: Listener<CameraView>): () => void;
+}
+
+export function createCameraDirector(): CameraDirector {
+  const listeners = new Set<Listener<CameraView>>();
+  return {
+    goTo(view) {
+      listeners.forEach((listener) => listener(view));
+    },
+    onGoTo(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+// Slow at both ends so a move neither jerks away nor slams to a stop
+export function easeInOutCubic(t: number): number {
+  return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+}
+
+export function lerpVec3(from: Vec3, to: Vec3, t: number): Vec3 {
+  return [from[0] + (to[0] - from[0]) * t, from[1] + (to[1] - from[1]) * t, from[2] + (to[2] - from[2]) * t];
+}
+
+const STORAGE_KEY = 'pendulum.cameraViews';
+
+function isVec3(value: unknown): value is Vec3 {
+  return Array.isArray(value) && value.length === 3 && value.every((v) => typeof v === 'number');
+}
+
+function isCameraView(value: unknown): value is CameraView {
+  const view = value as CameraView;
+  return (
+    typeof view?.name === 'string' &&
+    isVec3(view.position) &&
+    isVec3(view.target) &&
+    (view.projection === 'perspective' || view.projection === 'orthographic')
+  );
+}
+
+export function loadSavedViews(): CameraView[] {
+  try {
+    const data: unknown = JSON.parse(sessionStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(data) ? data.filter(isCameraView) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveSavedViews(views: CameraView[]) {
+  sessionStorage.setItem(STORAGE_KEY, JSON.stringify(views));
+}
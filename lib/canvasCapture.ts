@@ -0,0 +1,137 @@
+import { addAfterEffect, type RootState } from '@react-three/fiber';
+import { GIFEncoder, applyPalette, quantize } from 'gifenc';
+import { zipSync } from 'fflate';
+
+// Capture of the WebGL canvas: live to WebM through MediaRecorder, or offline frame by
+// frame with the render loop stopped so every frame advances the simulation by exactly 1/fps
+
+export type CaptureFormat = 'webm' | 'png' | 'gif';
+
+export interface Resolution {
+  width: number;
+  height: number;
+}
+
+export interface CaptureOptions {
+  format: CaptureFormat;
+  resolution: Resolution | null; // null keeps the on-screen canvas size
+  fps: number;
+}
+
+export interface OfflineCaptureOptions extends CaptureOptions {
+  duration: number; // Seconds of output video
+}
+
+export interface LiveCapture {
+  stop(): Promise<Blob>;
+}
+
+function outputSize(source: HTMLCanvasElement, resolution: Resolution | null): Resolution {
+  return resolution ?? { width: source.width, height: source.height };
+}
+
+// Scale the source to fill the output, cropping whichever dimension overflows
+function drawCover(ctx: CanvasRenderingContext2D, source: HTMLCanvasElement) {
+  const { width, height } = ctx.canvas;
+  const scale = Math.max(width / source.width, height / source.height);
+  const w = source.width * scale;
+  const h = source.height * scale;
+  ctx.drawImage(source, (width - w) / 2, (height - h) / 2, w, h);
+}
+
+function createOutputCanvas(source: HTMLCanvasElement, resolution: Resolution | null) {
+  const { width, height } = outputSize(source, resolution);
+  const canvas = document.createElement('canvas');
+  // Encoders want even dimensions
+  canvas.width = width - (width % 2);
+  canvas.height = height - (height % 2);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('2D canvas is not available');
+  return ctx;
+}
+
+function webmMimeType() {
+  const candidates = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+  return candidates.find((type) => MediaRecorder.isTypeSupported(type)) ?? 'video/webm';
+}
+
+// Records whatever the canvas shows until stopped. Frames are copied right after each
+// render, while the WebGL drawing buffer is still valid
+export function startLiveCapture(root: RootState, options: CaptureOptions): LiveCapture {
+  const source = root.gl.domElement;
+  const ctx = createOutputCanvas(source, options.resolution);
+  const removeEffect = addAfterEffect(() => drawCover(ctx, source));
+
+  const recorder = new MediaRecorder(ctx.canvas.captureStream(options.fps), { mimeType: webmMimeType() });
+  const chunks: Blob[] = [];
+  recorder.addEventListener('dataavailable', (event) => chunks.push(event.data));
+  recorder.start(1000);
+
+  return {
+    stop: () => new Promise((resolve) => {
+      recorder.addEventListener('stop', () => {
+        removeEffect();
+        resolve(new Blob(chunks, { type: 'video/webm' }));
+      });
+      recorder.stop();
+    }),
+  };
+}
+
+function canvasToPng(canvas: HTMLCanvasElement): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (!blob) reject(new Error('Could not encode frame'));
+      else blob.arrayBuffer().then((buffer) => resolve(new Uint8Array(buffer)), reject);
+    }, 'image/png');
+  });
+}
+
+// Renders duration · fps frames with a fixed timestep and returns a zip of PNGs or a GIF.
+// The regular render loop is paused for the whole capture and restored afterwards
+export async function captureOffline(
+  root: RootState,
+  options: OfflineCaptureOptions,
+  onProgress: (fraction: number) => void,
+  signal?: AbortSignal
+): Promise<Blob | null> {
+  const source = root.gl.domElement;
+  const ctx = createOutputCanvas(source, options.resolution);
+  const { width, height } = ctx.canvas;
+  const frameCount = Math.max(1, Math.round(options.duration * options.fps));
+  const pngFrames: Record<string, Uint8Array> = {};
+  const gif = options.format === 'gif' ? GIFEncoder() : null;
+
+  const start = root.clock.elapsedTime;
+  root.setFrameloop('never');
+  try {
+    for (let i = 0; i < frameCount; i++) {
+      if (signal?.aborted) return null;
+
+      // One fixed step of simulated time, rendered and copied out immediately
+      root.advance(start + (i + 1) / options.fps);
+      drawCover(ctx, source);
+
+      if (gif) {
+        const { data } = ctx.getImageData(0, 0, width, height);
+        const palette = quantize(data, 256);
+        gif.writeFrame(applyPalette(data, palette), width, height, { palette, delay: 1000 / options.fps, repeat: 0 });
+      } else {
+        pngFrames[`frame-${String(i + 1).padStart(5, '0')}.png`] = await canvasToPng(ctx.canvas);
+      }
+
+      onProgress((i + 1) / frameCount);
+      // Let the progress readout paint between frames
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+  } finally {
+    root.setFrameloop('always');
+  }
+
+  if (gif) {
+    gif.finish();
+    return new Blob([gif.bytes() as BlobPart], { type: 'image/gif' });
+  }
+  // PNGs are already compressed, so store them without deflating again
+  return new Blob([zipSync(pngFrames, { level: 0 }) as BlobPart], { type: 'application/zip' });
+}
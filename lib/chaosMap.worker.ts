@@ -0,0 +1,20 @@
+// Web Worker that computes a chaos map row by row off the render loop
+import { computeChaosMapRow, type ChaosMapConfig } from './physics/chaosMap';
+
+export interface ChaosMapRequest {
+  config: ChaosMapConfig;
+}
+
+export type ChaosMapResponse =
+  | { type: 'row'; row: number; values: number[] }
+  | { type: 'done' };
+
+addEventListener('message', (event: MessageEvent<ChaosMapRequest>) => {
+  const { config } = event.data;
+  for (let row = 0; row < config.resolution; row++) {
+    const response: ChaosMapResponse = { type: 'row', row, values: computeChaosMapRow(config, row) };
+    postMessage(response);
+  }
+  const done: ChaosMapResponse = { type: 'done' };
+  postMessage(done);
+});
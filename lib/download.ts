@@ -0,0 +1,32 @@
+// Save generated content through a temporary download link
+export function downloadBlob(filename: string, blob: Blob) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Give the browser a moment to start the download before releasing the data
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export function downloadText(filename: string, text: string, type: string) {
+  downloadBlob(filename, new Blob([text], { type }));
+}
+
+// Ask the user for a file; resolves with null if the picker is dismissed
+export function pickFile(accept: string): Promise<File | null> {
+  return new Promise((resolve) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = accept;
+    input.addEventListener('change', () => resolve(input.files?.[0] ?? null));
+    input.addEventListener('cancel', () => resolve(null));
+    input.click();
+  });
+}
+
+// Timestamped file name such as pendulum-run-2024-05-01T12-30-00.csv
+export function timestampedName(prefix: string, extension: string) {
+  const stamp = new Date().toISOString().slice(0, 19).replace(/:/g, '-');
+  return `${prefix}-${stamp}.${extension}`;
+}
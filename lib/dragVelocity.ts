@@ -0,0 +1,46 @@
+// Angular velocity of a rod being dragged, estimated from the pointer's recent samples so a
+// rod let go mid-swing keeps moving ("fling to release")
+export interface DragVelocityTracker {
+  // Angle of the rod at a time in seconds, continued across ±π so whole turns are kept
+  push(time: number, angle: number): number;
+  // Estimated angular velocity (rad/s) at release time
+  velocity(time: number): number;
+}
+
+// Only the last moments of a drag say how it was thrown
+const WINDOW_SECONDS = 0.1;
+// A pointer held still this long before lifting means the rod is set down, not thrown
+const STALE_SECONDS = 0.05;
+// A flick across the rod's pivot can read as a huge rate; no hand throws faster than this
+const MAX_FLING_SPEED = 40;
+
+export function createDragVelocityTracker(): DragVelocityTracker {
+  const samples: { time: number; angle: number }[] = [];
+
+  return {
+    push(time, angle) {
+      const previous = samples[samples.length - 1];
+      const turn = 2 * Math.PI;
+      const continued = previous ? angle - turn * Math.round((angle - previous.angle) / turn) : angle;
+      samples.push({ time, angle: continued });
+      while (samples.length > 2 && time - samples[0].time > WINDOW_SECONDS) samples.shift();
+      return continued;
+    },
+    velocity(time) {
+      const recent = samples.filter((sample) => time - sample.time <= WINDOW_SECONDS);
+      if (recent.length < 2 || time - recent[recent.length - 1].time > STALE_SECONDS) return 0;
+
+      // Least-squares slope of angle against time, which irons out jitter in single moves
+      const meanTime = recent.reduce((sum, s) => sum + s.time, 0) / recent.length;
+      const meanAngle = recent.reduce((sum, s) => sum + s.angle, 0) / recent.length;
+      let covariance = 0;
+      let variance = 0;
+      for (const s of recent) {
+        covariance += (s.time - meanTime) * (s.angle - meanAngle);
+        variance += (s.time - meanTime) ** 2;
+      }
+      if (variance === 0) return 0;
+      return Math.max(-MAX_FLING_SPEED, Math.min(MAX_FLING_SPEED, covariance / variance));
+    },
+  };
+}
@@ -0,0 +1,156 @@
+// Frame-time benchmark of the render loop. Two equal phases run back to back: first the
+// pendulum keeps its live state in React as it used to, setting it every frame and re-binding
+// its pointer listeners on each change, then it runs from the simulation store alone. Frame
+// intervals and the time React spends rendering the pendulum are compared between the two.
+// Nothing is recorded unless the benchmark is active, which the frame-time panel makes it
+// while it is open
+
+export type BenchmarkPhase = 'idle' | 'reactState' | 'store';
+
+export interface FrameTimeSummary {
+  fps: number;
+  meanMs: number;
+  p95Ms: number;
+  worstMs: number;
+  commitsPerSecond: number; // React commits of the pendulum subtree
+  renderMsPerFrame: number; // React render time of the pendulum subtree, per frame
+}
+
+export interface BenchmarkResult {
+  reactState: FrameTimeSummary;
+  store: FrameTimeSummary;
+}
+
+type Listener<T> = (value: T) => void;
+
+export interface FrameBenchmark {
+  active(): boolean;
+  // Switching off drops the live window and abandons a run in progress
+  setActive(active: boolean): void;
+  phase(): BenchmarkPhase;
+  // Only starts while active
+  start(): void;
+  // Progress through the current phase, from 0 to 1
+  progress(): number;
+  // Called once per animation frame with the time since the previous one
+  recordFrame(frameMs: number): void;
+  // Called by a React Profiler around the pendulum with each commit's render time
+  recordCommit(renderMs: number): void;
+  // Rolling summary of the most recent frames, for a live readout
+  live(): FrameTimeSummary | null;
+  result(): BenchmarkResult | null;
+  onPhaseChange(listener: Listener<BenchmarkPhase>): () => void;
+}
+
+const PHASE_FRAMES = 300; // About five seconds at 60 fps
+const SETTLE_FRAMES = 30; // Dropped at the start of each phase while the switch settles in
+const LIVE_FRAMES = 120;
+
+interface Samples {
+  frames: number[];
+  commits: number[];
+}
+
+export function summarizeFrames(frames: readonly number[], commits: readonly number[]): FrameTimeSummary | null {
+  if (frames.length === 0) return null;
+  const total = frames.reduce((sum, ms) => sum + ms, 0);
+  const sorted = [...frames].sort((a, b) => a - b);
+  const renderTotal = commits.reduce((sum, ms) => sum + ms, 0);
+  return {
+    fps: total > 0 ? (1000 * frames.length) / total : 0,
+    meanMs: total / frames.length,
+    p95Ms: sorted[Math.min(sorted.length - 1, Math.floor(0.95 * sorted.length))],
+    worstMs: sorted[sorted.length - 1],
+    commitsPerSecond: total > 0 ? (1000 * commits.length) / total : 0,
+    renderMsPerFrame: renderTotal / frames.length,
+  };
+}
+
+export function createFrameBenchmark(): FrameBenchmark {
+  let active = false;
+  let phase: BenchmarkPhase = 'idle';
+  let settling = 0;
+  let samples: Record<Exclude<BenchmarkPhase, 'idle'>, Samples> = {
+    reactState: { frames: [], commits: [] },
+    store: { frames: [], commits: [] },
+  };
+  let result: BenchmarkResult | null = null;
+  // Live window: frame intervals, and each commit tagged with the frame it followed
+  let liveFrames: number[] = [];
+  let liveCommits: { frame: number; ms: number }[] = [];
+  let frameCount = 0;
+  const listeners = new Set<Listener<BenchmarkPhase>>();
+
+  const enter = (next: BenchmarkPhase) => {
+    phase = next;
+    settling = SETTLE_FRAMES;
+    listeners.forEach((listener) => listener(next));
+  };
+
+  const finish = () => {
+    const reactState = summarizeFrames(samples.reactState.frames, samples.reactState.commits);
+    const store = summarizeFrames(samples.store.frames, samples.store.commits);
+    result = reactState && store ? { reactState, store } : null;
+    enter('idle');
+  };
+
+  return {
+    active() {
+      return active;
+    },
+    setActive(next) {
+      active = next;
+      if (next) return;
+      liveFrames = [];
+      liveCommits = [];
+      if (phase !== 'idle') enter('idle');
+    },
+    phase() {
+      return phase;
+    },
+    start() {
+      if (!active) return;
+      samples = { reactState: { frames: [], commits: [] }, store: { frames: [], commits: [] } };
+      result = null;
+      enter('reactState');
+    },
+    progress() {
+      return phase === 'idle' ? 0 : samples[phase].frames.length / PHASE_FRAMES;
+    },
+    recordFrame(frameMs) {
+      if (!active) return;
+      frameCount++;
+      liveFrames.push(frameMs);
+      if (liveFrames.length > LIVE_FRAMES) liveFrames.shift();
+      liveCommits = liveCommits.filter(({ frame }) => frameCount - frame < LIVE_FRAMES);
+
+      if (phase === 'idle') return;
+      if (settling > 0) {
+        settling--;
+        return;
+      }
+      const current = samples[phase];
+      current.frames.push(frameMs);
+      if (current.frames.length < PHASE_FRAMES) return;
+      if (phase === 'reactState') enter('store');
+      else finish();
+    },
+    recordCommit(renderMs) {
+      if (!active) return;
+      liveCommits.push({ frame: frameCount, ms: renderMs });
+      if (phase !== 'idle' && settling === 0) samples[phase].commits.push(renderMs);
+    },
+    live() {
+      return summarizeFrames(liveFrames, liveCommits.map(({ ms }) => ms));
+    },
+    result() {
+      return result;
+    },
+    onPhaseChange(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { chainDerivatives, placeChain, solveLinear, stepChain, type ChainParams, type ChainState } from '../chain';
+import { derivatives } from '../dynamics';
+import { step } from '../engine';
+import type { DynamicsModel } from '../model';
+import type { PendulumParams, PendulumState } from '../types';
+import { CONSERVATIVE_PARAMS } from './fixtures';
+
+// A double pendulum and the two-link chain that describes the same rig: rod 2 hangs from
+// rod 1's far end, so the attachment is a whole rod length from the pivot
+function twoLinkRig(model: DynamicsModel): { double: PendulumParams; chain: ChainParams } {
+  const double: PendulumParams = { ...CONSERVATIVE_PARAMS, model, rod2AttachmentPosition: 1, joint1Damping: 0.3, joint2Damping: 0.3 };
+  return {
+    double,
+    chain: {
+      model,
+      gravity: double.gravity,
+      jointDamping: 0.3,
+      links: [
+        { length: double.rod1Length, mass: double.rod1Mass, pivotOffset: double.pivotPosition },
+        { length: double.rod2Length, mass: double.rod2Mass, pivotOffset: double.rod2PivotPosition },
+      ],
+    },
+  };
+}
+
+const toChain = ({ t, theta1, theta2, omega1, omega2 }: PendulumState): ChainState => ({
+  t,
+  theta: [theta1, theta2],
+  omega: [omega1, omega2],
+});
+
+describe('solveLinear', () => {
+  it('solves a system that needs pivoting', () => {
+    const x = solveLinear([[0, 2, 1], [1, 1, 1], [2, 1, 0]], [5, 4, 4]);
+    [1, 2, 1].forEach((expected, i) => expect(x[i]).toBeCloseTo(expected, 12));
+  });
+});
+
+describe('chain', () => {
+  it.each(['rigid', 'ideal'] as const)('reduces to the double pendulum with two %s links', (model) => {
+    const { double, chain } = twoLinkRig(model);
+    const state: PendulumState = { t: 0, theta1: 0.7, theta2: -1.9, omega1: 1.3, omega2: -0.4 };
+    const expected = derivatives(state, double);
+    const { dOmega } = chainDerivatives(toChain(state), chain);
+    expect(dOmega[0]).toBeCloseTo(expected.dOmega1, 10);
+    expect(dOmega[1]).toBeCloseTo(expected.dOmega2, 10);
+  });
+
+  it('steps with RK4 in lockstep with the double pendulum', () => {
+    const { double, chain } = twoLinkRig('rigid');
+    let state: PendulumState = { t: 0, theta1: 2, theta2: 0.5, omega1: 0, omega2: 0 };
+    let links = toChain(state);
+    for (let i = 0; i < 200; i++) {
+      state = step(state, double, 0.005, { integrator: 'rk4', tolerance: 1e-6 });
+      links = stepChain(links, chain, 0.005);
+    }
+    expect(links.theta[0]).toBeCloseTo(state.theta1, 9);
+    expect(links.theta[1]).toBeCloseTo(state.theta2, 9);
+  });
+
+  it('is drawn where the equations swing it', () => {
+    const { chain } = twoLinkRig('rigid');
+    const apex = { x: 0, y: 2 };
+    const [rod1, rod2] = placeChain([0, 0], chain, apex);
+    const [link1, link2] = chain.links;
+    // Hanging straight down, each rod starts pivotOffset of its length above its joint
+    expect(rod1.top.y).toBeCloseTo(apex.y - link1.pivotOffset * link1.length, 12);
+    expect(rod1.tip.y).toBeCloseTo(rod1.top.y - link1.length, 12);
+    expect(rod2.top.y).toBeCloseTo(rod1.tip.y - link2.pivotOffset * link2.length, 12);
+
+    // The ideal model hangs every rod from its top end whatever the offset
+    const ideal = placeChain([0, 0], { ...chain, model: 'ideal' }, apex);
+    expect(ideal[0].top.y).toBe(apex.y);
+    expect(ideal[1].top.y).toBeCloseTo(apex.y - link1.length, 12);
+    expect(ideal[1].tip.y).toBeCloseTo(apex.y - link1.length - link2.length, 12);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { resolveContacts, type CollisionConfig } from '../collisions';
+import { placeRods, type RodLayout } from '../kinematics';
+import type { PendulumParams, PendulumState } from '../types';
+import { CONSERVATIVE_PARAMS } from './fixtures';
+
+// Two unit rods hung end to end from their tops, with the apex just high enough that rod 2
+// reaches the floor when it hangs
+const layout: RodLayout = {
+  apex: { x: 0, y: 1.95 },
+  rod1Length: 1,
+  rod2Length: 1,
+  pivotPosition: 0,
+  rod2AttachmentPosition: 1,
+  rod2PivotPosition: 0,
+};
+
+const params: PendulumParams = { ...CONSERVATIVE_PARAMS, ...layout };
+
+const base: CollisionConfig = {
+  layout,
+  frame: { baseWidth: 0.4, baseHeight: 0.1, legs: [] },
+  jointLimits: false,
+  joint1Limit: 1,
+  joint2Limit: 2,
+  frameCollisions: false,
+  restitution: 0.5,
+};
+
+// Vertical speed of rod 2's tip
+const tipVelocityY = ({ theta1, theta2, omega1, omega2 }: PendulumState) =>
+  Math.sin(theta1) * omega1 + Math.sin(theta2) * omega2;
+
+describe('resolveContacts', () => {
+  it('leaves the state alone with contacts off', () => {
+    const state = { t: 0, theta1: 3, theta2: -3, omega1: 5, omega2: 5 };
+    expect(resolveContacts(state, params, base)).toBe(state);
+  });
+
+  it('pushes a rod back inside its end stop and reverses it with the restitution', () => {
+    const config = { ...base, jointLimits: true };
+    const state = { t: 0, theta1: 1.05, theta2: 1.05, omega1: 2, omega2: 2 };
+    const next = resolveContacts(state, params, config);
+    expect(next.theta1).toBeLessThanOrEqual(config.joint1Limit + 1e-12);
+    expect(next.omega1).toBeCloseTo(-config.restitution * state.omega1, 9);
+  });
+
+  it('lifts a rod end out of the floor and bounces it back up', () => {
+    const config = { ...base, frameCollisions: true };
+    // Beside the base, a few millimetres into the floor and still swinging down
+    const state = { t: 0, theta1: 0.01, theta2: 0.3, omega1: 0, omega2: -1 };
+    expect(placeRods(state.theta1, state.theta2, layout).rod2Tip.y).toBeLessThan(0);
+
+    const next = resolveContacts(state, params, config);
+    expect(placeRods(next.theta1, next.theta2, layout).rod2Tip.y).toBeGreaterThan(-1e-6);
+    expect(tipVelocityY(next)).toBeGreaterThan(0);
+    expect(tipVelocityY(next)).toBeCloseTo(-config.restitution * tipVelocityY(state), 1);
+  });
+
+  it('stops a slow approach dead instead of bouncing', () => {
+    const config = { ...base, frameCollisions: true };
+    const state = { t: 0, theta1: 0.01, theta2: 0.3, omega1: 0, omega2: -0.01 };
+    const next = resolveContacts(state, params, config);
+    expect(Math.abs(tipVelocityY(next))).toBeLessThan(1e-3);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import {
+  advanceControlledFrame,
+  createBalanceController,
+  DEFAULT_CONTROLLER_SETTINGS,
+  type ControllerSettings,
+  type ControlStrategy,
+} from '../control';
+import { createInitialState, DEFAULT_INITIAL_CONDITIONS, type FrameStepperConfig } from '../engine';
+import type { DynamicsModel } from '../model';
+import { wrapAngle } from '../phaseSpace';
+import type { PendulumParams, PendulumState } from '../types';
+import { CONSERVATIVE_PARAMS } from './fixtures';
+
+// The settings panel's rig as the app starts it, constant boost torque included
+const defaultRig = (model: DynamicsModel): PendulumParams => ({
+  ...CONSERVATIVE_PARAMS,
+  model,
+  rod1MomentumBoost: 1,
+  frictionStickVelocity: 0.05,
+});
+
+const config: FrameStepperConfig = { integrator: 'rk4', tolerance: 1e-6, fixedDt: 0.004, maxSubsteps: 400 };
+const FRAME = 0.02;
+
+function control(start: PendulumState, params: PendulumParams, settings: ControllerSettings, seconds: number) {
+  const controller = createBalanceController();
+  let state = start;
+  let accumulator = 0;
+  for (let i = 0; i < Math.round(seconds / FRAME); i++) {
+    const result = advanceControlledFrame(state, params, controller, settings, i * FRAME, accumulator + FRAME, config);
+    state = result.state;
+    accumulator = result.accumulator;
+  }
+  return { state, output: controller.lastOutput() };
+}
+
+const offUpright = (state: PendulumState) =>
+  Math.max(Math.abs(wrapAngle(state.theta1 - Math.PI)), Math.abs(wrapAngle(state.theta2 - Math.PI)));
+
+const cases = (['rigid', 'ideal'] as const).flatMap((model) =>
+  (['lqr', 'pid'] as ControlStrategy[]).map((strategy) => [model, strategy] as const)
+);
+
+describe('balance controller', () => {
+  it.each(cases)('holds the default %s rig upright with %s', (model, strategy) => {
+    const start: PendulumState = { t: 0, theta1: Math.PI + 0.1, theta2: Math.PI - 0.1, omega1: 0, omega2: 0 };
+    const settings = { ...DEFAULT_CONTROLLER_SETTINGS, strategy, swingUp: false };
+    const { state, output } = control(start, defaultRig(model), settings, 5);
+    expect(offUpright(state)).toBeLessThan(1e-3);
+    // At rest upright all that is left is cancelling the constant boost torque
+    expect(output.torque).toBeCloseTo(-1.9, 2);
+  });
+
+  it.each(cases)('swings the default %s rig up and catches it with %s', (model, strategy) => {
+    const settings = { ...DEFAULT_CONTROLLER_SETTINGS, strategy };
+    const { state, output } = control(createInitialState(DEFAULT_INITIAL_CONDITIONS), defaultRig(model), settings, 15);
+    expect(output.phase).toBe('balance');
+    expect(offUpright(state)).toBeLessThan(1e-3);
+  }, 30_000);
+
+  it('balances the default rigid rig with the hand-set PID gains', () => {
+    const start: PendulumState = { t: 0, theta1: Math.PI + 0.1, theta2: Math.PI - 0.1, omega1: 0, omega2: 0 };
+    const settings = { ...DEFAULT_CONTROLLER_SETTINGS, strategy: 'pid' as const, pidFromLqr: false, swingUp: false };
+    expect(offUpright(control(start, defaultRig('rigid'), settings, 5).state)).toBeLessThan(1e-3);
+  });
+});
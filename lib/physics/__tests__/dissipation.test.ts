@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { coulombTorque, dissipativeForces } from '../dissipation';
+import { createInitialState, DEFAULT_INITIAL_CONDITIONS, simulate } from '../engine';
+import { energy } from '../energy';
+import type { PendulumParams, PendulumState } from '../types';
+import { CONSERVATIVE_PARAMS } from './fixtures';
+
+const lossy: PendulumParams = {
+  ...CONSERVATIVE_PARAMS,
+  joint1Damping: 0.2,
+  joint2Damping: 0.1,
+  joint1Friction: 0.05,
+  joint2Friction: 0.05,
+  frictionStickVelocity: 0.01,
+  rod1AirDrag: 0.3,
+  rod2AirDrag: 0.3,
+};
+
+describe('coulombTorque', () => {
+  it('is zero without friction', () => {
+    expect(coulombTorque(3, 0, 0.01)).toBe(0);
+  });
+
+  it('opposes sliding with the full friction torque', () => {
+    expect(coulombTorque(2, 0.5, 0.01)).toBe(-0.5);
+    expect(coulombTorque(-2, 0.5, 0.01)).toBe(0.5);
+  });
+
+  it('ramps to zero below the stick velocity', () => {
+    expect(coulombTorque(0.005, 0.5, 0.01)).toBeCloseTo(-0.25, 12);
+    expect(coulombTorque(0, 0.5, 0.01)).toBe(-0);
+  });
+});
+
+describe('dissipativeForces', () => {
+  it('puts the joint 2 torque on rod 2 and its reaction on rod 1', () => {
+    const joint2Only = { ...CONSERVATIVE_PARAMS, joint2Damping: 0.4 };
+    const { q1, q2 } = dissipativeForces({ t: 0, theta1: 0, theta2: 0, omega1: 1, omega2: 3 }, joint2Only);
+    expect(q2).toBeCloseTo(-0.8, 12);
+    expect(q1).toBeCloseTo(0.8, 12);
+  });
+
+  it('never does positive work', () => {
+    for (const [omega1, omega2] of [[1, 3], [-2, 0.5], [0.004, -0.003], [5, -5]]) {
+      const state: PendulumState = { t: 0, theta1: 0.3, theta2: -1, omega1, omega2 };
+      const { q1, q2 } = dissipativeForces(state, lossy);
+      expect(q1 * omega1 + q2 * omega2).toBeLessThanOrEqual(0);
+    }
+  });
+
+  it('drains energy from a swinging pendulum', () => {
+    const states = simulate(createInitialState(DEFAULT_INITIAL_CONDITIONS), lossy, 0.005, 20);
+    const totals = states.map((state) => energy(state, lossy).total);
+    // Allow for integrator noise between neighbouring steps
+    totals.slice(1).forEach((total, i) => expect(total).toBeLessThanOrEqual(totals[i] + 1e-9));
+    expect(totals.at(-1)!).toBeLessThan(0.5 * totals[0]);
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import {
+  advanceFrame,
+  createInitialState,
+  DEFAULT_INITIAL_CONDITIONS,
+  planSubsteps,
+  step,
+  type FrameStepperConfig,
+} from '../engine';
+import { CONSERVATIVE_PARAMS } from './fixtures';
+
+// A power of two, so the frame times below add up without rounding
+const config: FrameStepperConfig = { integrator: 'rk4', tolerance: 1e-6, fixedDt: 1 / 64, maxSubsteps: 400 };
+
+describe('planSubsteps', () => {
+  it('runs whole substeps and carries the remainder', () => {
+    const plan = planSubsteps(3.5 / 64, 0, config);
+    expect(plan.substeps).toBe(3);
+    expect(plan.accumulator).toBe(0.5 / 64);
+  });
+
+  it('adds the carried time to the next frame', () => {
+    const plan = planSubsteps(0.75 / 64, 0.5 / 64, config);
+    expect(plan.substeps).toBe(1);
+    expect(plan.accumulator).toBe(0.25 / 64);
+  });
+
+  it('drops what it cannot catch up on instead of falling further behind', () => {
+    const plan = planSubsteps(100 / 64, 0, { ...config, maxSubsteps: 10 });
+    expect(plan.substeps).toBe(10);
+    expect(plan.accumulator).toBeLessThanOrEqual(config.fixedDt);
+  });
+});
+
+describe('advanceFrame', () => {
+  const initial = createInitialState(DEFAULT_INITIAL_CONDITIONS);
+
+  it('gives the same run whatever the frame lengths', () => {
+    const frameTimes = [1 / 128, 5 / 128, 2 / 128, 7 / 128, 1 / 128, 3 / 128, 4 / 128, 9 / 128];
+    let frame = { state: initial, accumulator: 0 };
+    for (const frameTime of frameTimes) frame = advanceFrame(frame.state, CONSERVATIVE_PARAMS, frameTime, frame.accumulator, config);
+
+    let fixed = initial;
+    for (let i = 0; i < 16; i++) fixed = step(fixed, CONSERVATIVE_PARAMS, config.fixedDt, config);
+
+    expect(frame.accumulator).toBe(0);
+    expect(frame.state).toEqual(fixed);
+  });
+
+  it('drops the rest of the frame when RK45 runs out of trial steps', () => {
+    const tight: FrameStepperConfig = { integrator: 'rk45', tolerance: 1e-16, fixedDt: 5, maxSubsteps: 400 };
+    const result = advanceFrame(initial, CONSERVATIVE_PARAMS, 10, 0, tight);
+    expect(result.stalled).toBe(true);
+    expect(result.substeps).toBe(1);
+    expect(result.accumulator).toBe(0);
+    // The state is stamped with the time actually reached, not the end of the step
+    expect(result.state.t).toBeGreaterThan(0);
+    expect(result.state.t).toBeLessThan(5);
+  });
+});
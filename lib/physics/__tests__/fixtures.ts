@@ -0,0 +1,25 @@
+import { UNDRIVEN } from '../forcing';
+import type { PendulumParams } from '../types';
+
+// The settings panel's pendulum with nothing driving it and nothing taking energy out, so
+// total energy is a constant of the motion
+export const CONSERVATIVE_PARAMS: PendulumParams = {
+  model: 'rigid',
+  gravity: 1,
+  rod1Mass: 5,
+  rod2Mass: 5,
+  rod1Length: 1.9,
+  rod2Length: 1.3,
+  pivotPosition: -0.3,
+  rod2AttachmentPosition: 0.03,
+  rod2PivotPosition: -0.3,
+  rod1MomentumBoost: 0,
+  ...UNDRIVEN,
+  joint1Damping: 0,
+  joint2Damping: 0,
+  joint1Friction: 0,
+  joint2Friction: 0,
+  frictionStickVelocity: 0,
+  rod1AirDrag: 0,
+  rod2AirDrag: 0,
+};
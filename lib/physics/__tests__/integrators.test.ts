@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { createInitialState, DEFAULT_INITIAL_CONDITIONS, simulate, step } from '../engine';
+import { energy, relativeDrift } from '../energy';
+import type { IntegratorName } from '../integrators';
+import type { PendulumState } from '../types';
+import { CONSERVATIVE_PARAMS } from './fixtures';
+
+const initial = createInitialState(DEFAULT_INITIAL_CONDITIONS);
+
+// Largest relative energy error anywhere along a run
+function worstDrift(states: PendulumState[]): number {
+  const baseline = energy(states[0], CONSERVATIVE_PARAMS).total;
+  return Math.max(...states.map((state) => Math.abs(relativeDrift(energy(state, CONSERVATIVE_PARAMS).total, baseline))));
+}
+
+// Distance in state space, angles and velocities alike
+function distance(a: PendulumState, b: PendulumState): number {
+  return Math.hypot(a.theta1 - b.theta1, a.theta2 - b.theta2, a.omega1 - b.omega1, a.omega2 - b.omega2);
+}
+
+// State after one second in equal steps of dt
+function oneSecond(integrator: IntegratorName, dt: number): PendulumState {
+  let state = initial;
+  for (let i = 0; i < Math.round(1 / dt); i++) state = step(state, CONSERVATIVE_PARAMS, dt, { integrator, tolerance: 1e-8 });
+  return state;
+}
+
+describe('energy conservation', () => {
+  it('holds with RK4 to well below the drift warning', () => {
+    const states = simulate(initial, CONSERVATIVE_PARAMS, 0.005, 20, { integrator: 'rk4', tolerance: 1e-6 });
+    expect(states.at(-1)!.t).toBeCloseTo(20, 9);
+    expect(worstDrift(states)).toBeLessThan(1e-8);
+  });
+
+  it('holds with RK45 at a tight tolerance', () => {
+    const states = simulate(initial, CONSERVATIVE_PARAMS, 0.005, 20, { integrator: 'rk45', tolerance: 1e-8 });
+    expect(worstDrift(states)).toBeLessThan(1e-10);
+  });
+
+  it('stays bounded with Verlet', () => {
+    const states = simulate(initial, CONSERVATIVE_PARAMS, 0.005, 60, { integrator: 'verlet', tolerance: 1e-6 });
+    expect(worstDrift(states)).toBeLessThan(1e-4);
+  });
+});
+
+describe('convergence order', () => {
+  // Far more accurate than any of the runs checked against it
+  const reference = oneSecond('rk4', 1e-4);
+
+  it.each([
+    ['euler', 1],
+    ['semiImplicitEuler', 1],
+    ['verlet', 2],
+    ['rk4', 4],
+  ] as const)('%s converges at order %i', (integrator, order) => {
+    const coarse = distance(oneSecond(integrator, 0.01), reference);
+    const fine = distance(oneSecond(integrator, 0.005), reference);
+    expect(Math.log2(coarse / fine)).toBeCloseTo(order, 1);
+  });
+
+  it('rk45 error follows its tolerance', () => {
+    const error = (tolerance: number) =>
+      distance(step(initial, CONSERVATIVE_PARAMS, 1, { integrator: 'rk45', tolerance }), reference);
+    expect(error(1e-4)).toBeLessThan(1e-3);
+    expect(error(1e-6)).toBeLessThan(error(1e-4) / 10);
+    expect(error(1e-8)).toBeLessThan(error(1e-6) / 10);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { createInitialState } from '../engine';
+import {
+  advanceLyapunov,
+  createLyapunovState,
+  estimateLyapunov,
+  lyapunovExponent,
+  separation,
+} from '../lyapunov';
+import type { PendulumParams } from '../types';
+import { CONSERVATIVE_PARAMS } from './fixtures';
+
+// The point-mass pendulum settles its finite-time estimate quickest
+const ideal: PendulumParams = { ...CONSERVATIVE_PARAMS, model: 'ideal' };
+
+const start = (theta1Deg: number, theta2Deg: number) =>
+  createInitialState({ initialTheta1Deg: theta1Deg, initialTheta2Deg: theta2Deg, initialOmega1: 0 });
+
+describe('separation', () => {
+  it('treats angles a whole turn apart as the same', () => {
+    const a = start(10, 20);
+    expect(separation(a, { ...a, theta1: a.theta1 + 2 * Math.PI, theta2: a.theta2 - 4 * Math.PI })).toBeCloseTo(0, 12);
+  });
+
+  it('starts the shadow trajectory d0 away', () => {
+    const state = createLyapunovState(start(30, 60), 1e-6);
+    expect(separation(state.reference, state.shadow) / 1e-6).toBeCloseTo(1, 6);
+  });
+});
+
+describe('largest Lyapunov exponent', () => {
+  it('is close to zero for small regular swings', () => {
+    expect(Math.abs(estimateLyapunov(start(2, 2), ideal, 30))).toBeLessThan(0.01);
+  });
+
+  it('is clearly positive for a chaotic start', () => {
+    expect(estimateLyapunov(start(120, 180), ideal, 30)).toBeGreaterThan(0.2);
+  });
+
+  it('does not depend on how the run is split into frames', () => {
+    const initial = start(120, 0);
+    const whole = advanceLyapunov(createLyapunovState(initial), CONSERVATIVE_PARAMS, 3);
+    let pieces = createLyapunovState(initial);
+    for (let i = 0; i < 30; i++) pieces = advanceLyapunov(pieces, CONSERVATIVE_PARAMS, 0.1);
+    expect(pieces.reference.t).toBeCloseTo(whole.reference.t, 9);
+    expect(lyapunovExponent(pieces)).toBeCloseTo(lyapunovExponent(whole), 9);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { step } from '../engine';
+import { createSphericalState, placeSphericalRods, sphericalEnergy, stepSpherical, type SphericalState, type Vec3 } from '../spherical';
+import { placeRods, type RodLayout } from '../kinematics';
+import type { PendulumState } from '../types';
+import { CONSERVATIVE_PARAMS } from './fixtures';
+
+const dot = (a: Vec3, b: Vec3) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+
+// In-plane angle from straight down of a rod direction
+const planarAngle = (u: Vec3) => Math.atan2(u[0], -u[1]);
+
+function run(state: SphericalState, seconds: number, dt = 0.005): SphericalState[] {
+  const states = [state];
+  for (let i = 0; i < Math.round(seconds / dt); i++) states.push(stepSpherical(states[i], CONSERVATIVE_PARAMS, dt));
+  return states;
+}
+
+describe('spherical pendulum', () => {
+  it('swings like the planar pendulum without azimuthal motion', () => {
+    const conditions = { theta1: 0.1, theta2: 1.57, omega1: 1, azimuthalVelocity1: 0, azimuthalVelocity2: 0 };
+    const spherical = run(createSphericalState(conditions), 2).at(-1)!;
+
+    let planar: PendulumState = { t: 0, theta1: 0.1, theta2: 1.57, omega1: 1, omega2: 0 };
+    for (let i = 0; i < 400; i++) planar = step(planar, CONSERVATIVE_PARAMS, 0.005);
+
+    expect(spherical.u1[2]).toBe(0);
+    expect(spherical.u2[2]).toBe(0);
+    expect(planarAngle(spherical.u1)).toBeCloseTo(planar.theta1, 6);
+    expect(planarAngle(spherical.u2)).toBeCloseTo(planar.theta2, 6);
+  });
+
+  it('keeps the rods unit length with tangent velocities and conserves energy', () => {
+    const conditions = { theta1: 0.8, theta2: 1.2, omega1: 0.5, azimuthalVelocity1: 1.5, azimuthalVelocity2: -0.7 };
+    const states = run(createSphericalState(conditions), 10);
+    const baseline = sphericalEnergy(states[0], CONSERVATIVE_PARAMS);
+    for (const state of states) {
+      expect(dot(state.u1, state.u1)).toBeCloseTo(1, 12);
+      expect(dot(state.u2, state.u2)).toBeCloseTo(1, 12);
+      expect(dot(state.u1, state.v1)).toBeCloseTo(0, 12);
+      expect(dot(state.u2, state.v2)).toBeCloseTo(0, 12);
+      expect(Math.abs(sphericalEnergy(state, CONSERVATIVE_PARAMS) - baseline) / baseline).toBeLessThan(1e-6);
+    }
+    // The azimuthal kick really does take it out of the plane
+    expect(Math.max(...states.map((state) => Math.abs(state.u2[2])))).toBeGreaterThan(0.1);
+  });
+
+  it('places the rods as the planar view does when they lie in the plane', () => {
+    const layout: RodLayout = { apex: { x: 0, y: 1.8 }, ...CONSERVATIVE_PARAMS };
+    const { u1, u2 } = createSphericalState({ theta1: 0.4, theta2: -1, omega1: 0, azimuthalVelocity1: 0, azimuthalVelocity2: 0 });
+    const spherical = placeSphericalRods(u1, u2, layout);
+    const planar = placeRods(0.4, -1, layout);
+    expect(spherical.rod2Tip[0]).toBeCloseTo(planar.rod2Tip.x, 12);
+    expect(spherical.rod2Tip[1]).toBeCloseTo(planar.rod2Tip.y, 12);
+    expect(spherical.joint2[0]).toBeCloseTo(planar.joint2.x, 12);
+  });
+});
@@ -0,0 +1,172 @@
+import type { DynamicsModel } from './model';
+import type { Point2 } from './kinematics';
+
+// Planar chain of N links hung end to end, the generalisation of the double pendulum.
+// Angles are absolute and measured from straight down, as in the two-link engine
+
+export interface ChainLink {
+  length: number;
+  mass: number;
+  // Where the rod's top end sits relative to the joint it hangs from, as a fraction of its
+  // length along the rod (0 = the rod hangs from its top end, -0.3 = the joint is 30% down
+  // the rod). The next link always hangs from this rod's far end. The ideal model has point
+  // masses on massless rods hung from their top ends, so it ignores the offset
+  pivotOffset: number;
+}
+
+export interface ChainParams {
+  model: DynamicsModel;
+  gravity: number;
+  links: ChainLink[];
+  jointDamping: number; // Viscous damping at every joint (N·m·s/rad)
+}
+
+export interface ChainState {
+  t: number;
+  theta: number[];
+  omega: number[];
+}
+
+export interface ChainDerivative {
+  dTheta: number[];
+  dOmega: number[];
+}
+
+// Per-link distances along the rod from the joint it hangs from
+interface LinkGeometry {
+  mass: number;
+  top: number; // Joint to the rod's top end
+  com: number; // Joint to centre of mass
+  next: number; // Joint to the joint of the following link
+  inertia: number; // About the centre of mass
+}
+
+function linkGeometry(params: ChainParams): LinkGeometry[] {
+  return params.links.map(({ length, mass, pivotOffset }) =>
+    params.model === 'ideal'
+      ? { mass, top: 0, com: length, next: length, inertia: 0 }
+      : {
+        mass,
+        top: pivotOffset * length,
+        com: (pivotOffset + 0.5) * length,
+        next: (pivotOffset + 1) * length,
+        inertia: (mass * length * length) / 12,
+      }
+  );
+}
+
+// Coupling coefficients mu[i][j] = sum over links k at or below both i and j of m_k a_ki a_kj,
+// where a_ki is how far link i moves link k's centre of mass per unit of rotation
+// (the joint spacing for links above k, the centre-of-mass distance for k itself)
+function couplings(links: LinkGeometry[]): number[][] {
+  const n = links.length;
+  const mu = Array.from({ length: n }, () => new Array<number>(n).fill(0));
+  for (let k = 0; k < n; k++) {
+    const lever = (i: number) => (i < k ? links[i].next : links[k].com);
+    for (let i = 0; i <= k; i++) {
+      for (let j = 0; j <= k; j++) mu[i][j] += links[k].mass * lever(i) * lever(j);
+    }
+  }
+  return mu;
+}
+
+// Solve A x = b in place by Gaussian elimination with partial pivoting
+export function solveLinear(A: number[][], b: number[]): number[] {
+  const n = b.length;
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(A[row][col]) > Math.abs(A[pivot][col])) pivot = row;
+    }
+    [A[col], A[pivot]] = [A[pivot], A[col]];
+    [b[col], b[pivot]] = [b[pivot], b[col]];
+    for (let row = col + 1; row < n; row++) {
+      const factor = A[row][col] / A[col][col];
+      for (let k = col; k < n; k++) A[row][k] -= factor * A[col][k];
+      b[row] -= factor * b[col];
+    }
+  }
+  const x = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = b[row];
+    for (let k = row + 1; k < n; k++) sum -= A[row][k] * x[k];
+    x[row] = sum / A[row][row];
+  }
+  return x;
+}
+
+// M(theta) alpha = -C(theta) omega² - g G sin(theta) + Q, with
+//   M_ij = mu_ij cos(theta_i - theta_j) (+ I_i on the diagonal)
+//   C_ij = mu_ij sin(theta_i - theta_j)
+//   G_i  = m_i c_i + d_i * (mass of every link below i)
+// For two links this reduces to the closed form in dynamics.ts
+export function chainDerivatives(state: ChainState, params: ChainParams): ChainDerivative {
+  const links = linkGeometry(params);
+  const mu = couplings(links);
+  const { theta, omega } = state;
+  const n = links.length;
+
+  const M: number[][] = [];
+  const rhs: number[] = [];
+  let massBelow = links.reduce((sum, link) => sum + link.mass, 0);
+  for (let i = 0; i < n; i++) {
+    massBelow -= links[i].mass;
+    const row: number[] = [];
+    let r = 0;
+    for (let j = 0; j < n; j++) {
+      const delta = theta[i] - theta[j];
+      row.push(mu[i][j] * Math.cos(delta) + (i === j ? links[i].inertia : 0));
+      r -= mu[i][j] * Math.sin(delta) * omega[j] * omega[j];
+    }
+    const gravityMoment = links[i].mass * links[i].com + links[i].next * massBelow;
+    r -= params.gravity * gravityMoment * Math.sin(theta[i]);
+
+    // Joint i connects link i to its parent; its damping torque reacts on the parent
+    const jointTorque = (k: number) => -params.jointDamping * (omega[k] - (k > 0 ? omega[k - 1] : 0));
+    r += jointTorque(i) - (i + 1 < n ? jointTorque(i + 1) : 0);
+
+    M.push(row);
+    rhs.push(r);
+  }
+
+  return { dTheta: [...omega], dOmega: solveLinear(M, rhs) };
+}
+
+function offset(state: ChainState, k: ChainDerivative, h: number): ChainState {
+  return {
+    t: state.t + h,
+    theta: state.theta.map((v, i) => v + h * k.dTheta[i]),
+    omega: state.omega.map((v, i) => v + h * k.dOmega[i]),
+  };
+}
+
+// Classic RK4 step of the chain. The integrator choice in the panel only applies to the double
+// pendulum's state, so the chain always steps with this
+export function stepChain(state: ChainState, params: ChainParams, dt: number): ChainState {
+  const f = (s: ChainState) => chainDerivatives(s, params);
+  const k1 = f(state);
+  const k2 = f(offset(state, k1, 0.5 * dt));
+  const k3 = f(offset(state, k2, 0.5 * dt));
+  const k4 = f(offset(state, k3, dt));
+  const weighted = (pick: (k: ChainDerivative) => number[], i: number) =>
+    (pick(k1)[i] + 2 * pick(k2)[i] + 2 * pick(k3)[i] + pick(k4)[i]) / 6;
+  return {
+    t: state.t + dt,
+    theta: state.theta.map((v, i) => v + dt * weighted((k) => k.dTheta, i)),
+    omega: state.omega.map((v, i) => v + dt * weighted((k) => k.dOmega, i)),
+  };
+}
+
+// Rod top and bottom ends for rendering, starting from the apex. Uses the same geometry as the
+// equations of motion, so each link is drawn hanging where the model swings it
+export function placeChain(theta: number[], params: ChainParams, apex: Point2): { top: Point2; tip: Point2 }[] {
+  let joint = apex;
+  return linkGeometry(params).map(({ top: topDistance, next }, i) => {
+    const ux = Math.sin(theta[i]);
+    const uy = -Math.cos(theta[i]);
+    const top = { x: joint.x + topDistance * ux, y: joint.y + topDistance * uy };
+    const tip = { x: joint.x + next * ux, y: joint.y + next * uy };
+    joint = tip;
+    return { top, tip };
+  });
+}
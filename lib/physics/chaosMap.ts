@@ -0,0 +1,67 @@
+import { createInitialState, step, type StepOptions } from './engine';
+import { estimateLyapunov, DEFAULT_LYAPUNOV_OPTIONS } from './lyapunov';
+import type { PendulumParams, PendulumState } from './types';
+
+// Parameter sweep over initial angles: every cell starts at rest at (θ1, θ2)
+// and records how chaotic the resulting motion is
+
+export type ChaosMetric = 'flipTime' | 'lyapunov';
+
+export interface ChaosMapConfig {
+  metric: ChaosMetric;
+  params: PendulumParams;
+  theta1RangeDeg: [number, number];
+  theta2RangeDeg: [number, number];
+  resolution: number; // Cells per side
+  maxTime: number; // Simulated seconds per cell
+  dt: number;
+}
+
+export const DEFAULT_CHAOS_STEP_OPTIONS: StepOptions = {
+  integrator: 'rk4',
+  tolerance: 1e-8,
+};
+
+// Centre of a grid cell in degrees
+export function cellAngles(config: ChaosMapConfig, row: number, column: number): { theta1Deg: number; theta2Deg: number } {
+  const [t1Min, t1Max] = config.theta1RangeDeg;
+  const [t2Min, t2Max] = config.theta2RangeDeg;
+  return {
+    theta1Deg: t1Min + ((column + 0.5) / config.resolution) * (t1Max - t1Min),
+    theta2Deg: t2Max - ((row + 0.5) / config.resolution) * (t2Max - t2Min), // Row 0 is the top of the map
+  };
+}
+
+// Index of the upright crossing an angle sits beyond: changes whenever θ passes an odd multiple of π
+function flipIndex(theta: number): number {
+  return Math.floor((theta + Math.PI) / (2 * Math.PI));
+}
+
+// Time until either rod goes over the top, or Infinity if neither does within maxTime.
+// Counted relative to the start so initial angles beyond ±180° are not flips already
+export function timeToFlip(initial: PendulumState, params: PendulumParams, maxTime: number, dt: number): number {
+  let state = initial;
+  const start1 = flipIndex(initial.theta1);
+  const start2 = flipIndex(initial.theta2);
+  const steps = Math.ceil(maxTime / dt);
+  for (let i = 0; i < steps; i++) {
+    state = step(state, params, dt, DEFAULT_CHAOS_STEP_OPTIONS);
+    if (flipIndex(state.theta1) !== start1 || flipIndex(state.theta2) !== start2) return state.t;
+  }
+  return Infinity;
+}
+
+// One row of the map, left to right
+export function computeChaosMapRow(config: ChaosMapConfig, row: number): number[] {
+  const values: number[] = [];
+  for (let column = 0; column < config.resolution; column++) {
+    const { theta1Deg, theta2Deg } = cellAngles(config, row, column);
+    const initial = createInitialState({ initialTheta1Deg: theta1Deg, initialTheta2Deg: theta2Deg, initialOmega1: 0 });
+    values.push(
+      config.metric === 'flipTime'
+        ? timeToFlip(initial, config.params, config.maxTime, config.dt)
+        : estimateLyapunov(initial, config.params, config.maxTime, { ...DEFAULT_LYAPUNOV_OPTIONS, dt: config.dt })
+    );
+  }
+  return values;
+}
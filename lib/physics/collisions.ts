@@ -0,0 +1,203 @@
+import { pivotDisplacement } from './forcing';
+import { massProperties } from './model';
+import type { Point2, RodLayout } from './kinematics';
+import type { PendulumParams, PendulumState } from './types';
+
+// Hard contacts: joint end stops and the rods hitting the base, the floor and the A-frame
+// legs. Every contact is a one-sided constraint c(θ) ≥ 0 with gradient J, resolved after
+// each physics step as an impulse on the generalized velocities,
+//   Δω = M⁻¹ Jᵀ λ,  λ = -(1 + e) J·ω / (J M⁻¹ Jᵀ)
+// which reverses the approach speed scaled by the restitution e, followed by the same
+// projection on the angles to remove any overlap left over
+
+// The A-frame as rendered: the base is a box standing on the floor (y = 0) centred on x = 0
+export interface FrameGeometry {
+  baseWidth: number;
+  baseHeight: number;
+  legs: [Point2, Point2][]; // Each support from its foot to its top, with the apex at rest
+}
+
+export interface CollisionConfig {
+  layout: RodLayout;
+  frame: FrameGeometry;
+  jointLimits: boolean;
+  joint1Limit: number; // Rod 1 swings at most this far either side of hanging (rad)
+  joint2Limit: number; // Rod 2 bends at most this far either way relative to rod 1 (rad)
+  frameCollisions: boolean; // Rod ends against base and floor, rod 2 against the legs
+  restitution: number; // 0 = the rod stops dead, 1 = perfectly elastic bounce
+}
+
+interface Contact {
+  J: [number, number]; // dc/dθ
+  depth: number; // How far the constraint is violated
+}
+
+// Impacts slower than this are treated as resting contact, so nothing chatters on the floor
+const RESTING_SPEED = 0.05;
+const SOLVER_PASSES = 4;
+
+// Angle folded into (-π, π]
+const wrap = (angle: number) => angle - 2 * Math.PI * Math.ceil((angle - Math.PI) / (2 * Math.PI));
+
+// A point on one of the rods: `along` rod 1 from the apex, or `along` rod 2 from joint 2
+interface RodPoint {
+  rod: 1 | 2;
+  along: number;
+}
+
+function rodEnds(layout: RodLayout): RodPoint[] {
+  const { pivotPosition, rod2PivotPosition, rod1Length, rod2Length } = layout;
+  return [
+    { rod: 1, along: pivotPosition * rod1Length },
+    { rod: 1, along: (pivotPosition + 1) * rod1Length },
+    { rod: 2, along: rod2PivotPosition * rod2Length },
+    { rod: 2, along: (rod2PivotPosition + 1) * rod2Length },
+  ];
+}
+
+// World position of a rod point and its derivatives with respect to θ1 and θ2
+function locate(point: RodPoint, state: PendulumState, layout: RodLayout, apex: Point2) {
+  const joint2 = (layout.pivotPosition + layout.rod2AttachmentPosition) * layout.rod1Length;
+  const d1 = point.rod === 1 ? point.along : joint2;
+  const d2 = point.rod === 2 ? point.along : 0;
+  const { theta1, theta2 } = state;
+  return {
+    position: {
+      x: apex.x + d1 * Math.sin(theta1) + d2 * Math.sin(theta2),
+      y: apex.y - d1 * Math.cos(theta1) - d2 * Math.cos(theta2),
+    },
+    dTheta1: { x: d1 * Math.cos(theta1), y: d1 * Math.sin(theta1) },
+    dTheta2: { x: d2 * Math.cos(theta2), y: d2 * Math.sin(theta2) },
+  };
+}
+
+// Contact of a rod point pressing against a surface with outward normal n
+function surfaceContact(located: ReturnType<typeof locate>, normal: Point2, depth: number): Contact {
+  return {
+    J: [
+      normal.x * located.dTheta1.x + normal.y * located.dTheta1.y,
+      normal.x * located.dTheta2.x + normal.y * located.dTheta2.y,
+    ],
+    depth,
+  };
+}
+
+function jointLimitContacts(state: PendulumState, config: CollisionConfig): Contact[] {
+  const contacts: Contact[] = [];
+  const bend1 = wrap(state.theta1);
+  const bend2 = wrap(state.theta2 - state.theta1);
+  if (bend1 > config.joint1Limit) contacts.push({ J: [-1, 0], depth: bend1 - config.joint1Limit });
+  if (bend1 < -config.joint1Limit) contacts.push({ J: [1, 0], depth: -config.joint1Limit - bend1 });
+  if (bend2 > config.joint2Limit) contacts.push({ J: [1, -1], depth: bend2 - config.joint2Limit });
+  if (bend2 < -config.joint2Limit) contacts.push({ J: [-1, 1], depth: -config.joint2Limit - bend2 });
+  return contacts;
+}
+
+// Rod ends inside the base box are pushed out through the nearest face; beside it they
+// stop on the floor
+function groundContacts(state: PendulumState, config: CollisionConfig, apex: Point2): Contact[] {
+  const { baseWidth, baseHeight } = config.frame;
+  const half = baseWidth / 2;
+  const contacts: Contact[] = [];
+  for (const end of rodEnds(config.layout)) {
+    const located = locate(end, state, config.layout, apex);
+    const { x, y } = located.position;
+    if (Math.abs(x) <= half && y < baseHeight) {
+      const faces = [
+        { normal: { x: 0, y: 1 }, depth: baseHeight - y },
+        { normal: { x: -1, y: 0 }, depth: x + half },
+        { normal: { x: 1, y: 0 }, depth: half - x },
+      ];
+      const nearest = faces.reduce((best, face) => (face.depth < best.depth ? face : best));
+      contacts.push(surfaceContact(located, nearest.normal, nearest.depth));
+    } else if (y < 0) {
+      contacts.push(surfaceContact(located, { x: 0, y: 1 }, -y));
+    }
+  }
+  return contacts;
+}
+
+// Rod 2 may not cross a leg: whichever end has swung to the far side of a leg from joint 2,
+// through the leg itself rather than past its ends, is pushed back along the leg's normal
+function legContacts(state: PendulumState, config: CollisionConfig, apex: Point2, shift: Point2): Contact[] {
+  const contacts: Contact[] = [];
+  const hinge = locate({ rod: 2, along: 0 }, state, config.layout, apex).position;
+  const ends = rodEnds(config.layout).filter((end) => end.rod === 2);
+  for (const [foot, top] of config.frame.legs) {
+    const a = { x: foot.x + shift.x, y: foot.y + shift.y };
+    const b = { x: top.x + shift.x, y: top.y + shift.y };
+    const length = Math.hypot(b.x - a.x, b.y - a.y);
+    if (length === 0) continue;
+    const normal = { x: -(b.y - a.y) / length, y: (b.x - a.x) / length };
+    const side = (p: Point2) => (p.x - a.x) * normal.x + (p.y - a.y) * normal.y;
+    const hingeSide = side(hinge);
+    if (hingeSide === 0) continue;
+    const inward = hingeSide > 0 ? normal : { x: -normal.x, y: -normal.y };
+
+    for (const end of ends) {
+      const located = locate(end, state, config.layout, apex);
+      const endSide = side(located.position);
+      if (Math.sign(endSide) === Math.sign(hingeSide)) continue;
+      // Where the rod crosses the leg's line, as a fraction of the way from foot to top
+      const f = hingeSide / (hingeSide - endSide);
+      const crossing = { x: hinge.x + f * (located.position.x - hinge.x), y: hinge.y + f * (located.position.y - hinge.y) };
+      const s = ((crossing.x - a.x) * (b.x - a.x) + (crossing.y - a.y) * (b.y - a.y)) / (length * length);
+      if (s < 0 || s > 1) continue;
+      contacts.push(surfaceContact(located, inward, Math.abs(endSide)));
+    }
+  }
+  return contacts;
+}
+
+function findContacts(state: PendulumState, params: PendulumParams, config: CollisionConfig): Contact[] {
+  const contacts = config.jointLimits ? jointLimitContacts(state, config) : [];
+  if (config.frameCollisions) {
+    // The legs and the rods' hanging point ride along with a driven apex; the base does not
+    const shift = pivotDisplacement(params, state.t);
+    const apex = { x: config.layout.apex.x + shift.x, y: config.layout.apex.y + shift.y };
+    contacts.push(...groundContacts(state, config, apex), ...legContacts(state, config, apex, shift));
+  }
+  return contacts;
+}
+
+// Inverse of the 2x2 mass matrix of the equations of motion at this configuration
+function inverseMassMatrix(state: PendulumState, params: PendulumParams): [number, number, number] {
+  const { m2, joint2, com2, inertia1, inertia2 } = massProperties(params);
+  const M11 = inertia1 + m2 * joint2 * joint2;
+  const M12 = m2 * joint2 * com2 * Math.cos(state.theta1 - state.theta2);
+  const M22 = inertia2 + m2 * com2 * com2;
+  const det = M11 * M22 - M12 * M12;
+  return [M22 / det, -M12 / det, M11 / det];
+}
+
+// Apply impulses and positional corrections for every active contact; a few sequential
+// passes let simultaneous contacts (say an end stop and the floor) settle together
+export function resolveContacts(state: PendulumState, params: PendulumParams, config: CollisionConfig): PendulumState {
+  if (!config.jointLimits && !config.frameCollisions) return state;
+  let next = state;
+  for (let pass = 0; pass < SOLVER_PASSES; pass++) {
+    const contacts = findContacts(next, params, config);
+    if (contacts.length === 0) break;
+    for (const { J, depth } of contacts) {
+      const [a, b, d] = inverseMassMatrix(next, params);
+      // M⁻¹ Jᵀ and the effective inverse mass along the constraint
+      const w1 = a * J[0] + b * J[1];
+      const w2 = b * J[0] + d * J[1];
+      const effective = J[0] * w1 + J[1] * w2;
+      if (effective <= 0) continue;
+
+      const approach = J[0] * next.omega1 + J[1] * next.omega2;
+      const restitution = approach < -RESTING_SPEED ? config.restitution : 0;
+      const impulse = approach < 0 ? (-(1 + restitution) * approach) / effective : 0;
+      const shift = depth / effective;
+      next = {
+        ...next,
+        theta1: next.theta1 + w1 * shift,
+        theta2: next.theta2 + w2 * shift,
+        omega1: next.omega1 + w1 * impulse,
+        omega2: next.omega2 + w2 * impulse,
+      };
+    }
+  }
+  return next;
+}
@@ -0,0 +1,287 @@
+import { resolveContacts } from './collisions';
+import { derivatives } from './dynamics';
+import { energy } from './energy';
+import { fellShort, planSubsteps, step, type FrameStepperConfig, type FrameStepResult } from './engine';
+import { UNDRIVEN } from './forcing';
+import { wrapAngle } from './phaseSpace';
+import type { PendulumParams, PendulumState } from './types';
+
+// Balancing controller for the inverted double pendulum, actuated at joint 1 only (the
+// elbow is passive, as on a Pendubot). Far from upright an energy-pumping swing-up brings
+// the total energy to that of the upright rest state; once both rods come within the
+// capture angle of vertical, LQR or PID takes over. The output is held constant over each
+// physics step like a digital controller's zero-order hold, and clipped to ±maxTorque
+
+export type ControlStrategy = 'lqr' | 'pid';
+
+export const CONTROL_STRATEGY_OPTIONS: Record<string, ControlStrategy> = {
+  'LQR (linearised upright)': 'lqr',
+  PID: 'pid',
+};
+
+export type ControlPhase = 'swingUp' | 'balance';
+
+export interface ControllerSettings {
+  strategy: ControlStrategy;
+  maxTorque: number; // Actuator saturation (N·m)
+  // LQR cost J = Σ xᵀQx + R u², Q = diag(angle, angle, velocity, velocity)
+  lqrAngleWeight: number;
+  lqrVelocityWeight: number;
+  lqrTorqueWeight: number;
+  // PID on rod 1's lean plus PD on rod 2's, summed: τ = Kp1 e1 + Ki1 ∫e1 + Kd1 ė1 + Kp2 e2 + Kd2 ė2
+  // with e = θ - π, so positive gains push joint 1 the way the rods lean
+  pidKp1: number;
+  pidKi1: number;
+  pidKd1: number;
+  pidKp2: number;
+  pidKd2: number;
+  pidFromLqr: boolean; // Take the proportional and derivative gains from the LQR solution instead
+  swingUp: boolean;
+  swingUpGain: number; // Torque per unit of energy error and rod 1 angular velocity
+  captureAngle: number; // Both rods within this of upright hands over to balancing (rad)
+}
+
+// The settings panel's controller before anything is changed
+export const DEFAULT_CONTROLLER_SETTINGS: ControllerSettings = {
+  strategy: 'lqr',
+  maxTorque: 20,
+  lqrAngleWeight: 10,
+  lqrVelocityWeight: 1,
+  lqrTorqueWeight: 1,
+  // Hand-set gains start from the LQR feedback of the default rigid rig, rounded
+  pidKp1: 4,
+  pidKi1: 1,
+  pidKd1: 10,
+  pidKp2: -38,
+  pidKd2: -33,
+  pidFromLqr: true,
+  swingUp: true,
+  swingUpGain: 20,
+  captureAngle: Math.PI / 6,
+};
+
+export interface ControllerOutput {
+  torque: number;
+  phase: ControlPhase;
+}
+
+export interface BalanceController {
+  // Torque to hold over the next step of length dt
+  update(state: PendulumState, params: PendulumParams, settings: ControllerSettings, dt: number): ControllerOutput;
+  lastOutput(): ControllerOutput;
+  // LQR gains for the current model, [θ1, θ2, ω1, ω2]; empty until first needed
+  gains(): number[];
+  reset(): void;
+}
+
+type Matrix = number[][];
+
+const matMul = (a: Matrix, b: Matrix): Matrix =>
+  a.map((row) => b[0].map((_, j) => row.reduce((sum, v, k) => sum + v * b[k][j], 0)));
+const matAdd = (a: Matrix, b: Matrix, s = 1): Matrix => a.map((row, i) => row.map((v, j) => v + s * b[i][j]));
+const transpose = (a: Matrix): Matrix => a[0].map((_, j) => a.map((row) => row[j]));
+const identity = (n: number): Matrix =>
+  Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => (i === j ? 1 : 0)));
+
+// Same rig with everything the linear model leaves out switched off: friction and drag are
+// not smooth at rest, and the periodic drive is a disturbance for the controller to reject
+function linearModelParams(params: PendulumParams): PendulumParams {
+  return {
+    ...params,
+    ...UNDRIVEN,
+    rod1MomentumBoost: 0,
+    controlTorque: 0,
+    joint1Friction: 0,
+    joint2Friction: 0,
+    rod1AirDrag: 0,
+    rod2AirDrag: 0,
+  };
+}
+
+// ẋ ≈ A x + B u about θ1 = θ2 = π at rest, by central differences of the full dynamics
+export function linearizeUpright(params: PendulumParams): { A: Matrix; B: Matrix } {
+  const base = linearModelParams(params);
+  const upright: PendulumState = { t: 0, theta1: Math.PI, theta2: Math.PI, omega1: 0, omega2: 0 };
+  const keys = ['theta1', 'theta2', 'omega1', 'omega2'] as const;
+  const rates = (state: PendulumState, torque: number) => {
+    const d = derivatives(state, { ...base, controlTorque: torque });
+    return [d.dTheta1, d.dTheta2, d.dOmega1, d.dOmega2];
+  };
+  const h = 1e-6;
+  const columns = keys.map((key) => {
+    const plus = rates({ ...upright, [key]: upright[key] + h }, 0);
+    const minus = rates({ ...upright, [key]: upright[key] - h }, 0);
+    return plus.map((v, i) => (v - minus[i]) / (2 * h));
+  });
+  const plus = rates(upright, h);
+  const minus = rates(upright, -h);
+  return {
+    A: transpose(columns),
+    B: plus.map((v, i) => [(v - minus[i]) / (2 * h)]),
+  };
+}
+
+// Discrete-time LQR for the zero-order-hold model with sample time dt. The discretisation
+// uses a truncated series of the matrix exponential and the Riccati equation is iterated
+// to its fixed point
+export function lqrGain(A: Matrix, B: Matrix, Q: Matrix, R: number, dt: number): number[] {
+  const n = A.length;
+  let Ad = identity(n);
+  let Bd = B.map((row) => row.map((v) => v * dt));
+  let term = identity(n);
+  for (let k = 1; k <= 12; k++) {
+    term = matMul(term, A).map((row) => row.map((v) => (v * dt) / k));
+    Ad = matAdd(Ad, term);
+    Bd = matAdd(Bd, matMul(term, B).map((row) => row.map((v) => (v * dt) / (k + 1))));
+  }
+
+  const AdT = transpose(Ad);
+  const BdT = transpose(Bd);
+  let P = Q;
+  let K: number[] = new Array<number>(n).fill(0);
+  for (let i = 0; i < 20000; i++) {
+    const PB = matMul(P, Bd);
+    const denominator = R + matMul(BdT, PB)[0][0];
+    K = matMul(BdT, matMul(P, Ad))[0].map((v) => v / denominator);
+    // P = Q + Adᵀ P (Ad - Bd K)
+    const closedLoop = matAdd(Ad, matMul(Bd, [K]), -1);
+    const next = matAdd(Q, matMul(AdT, matMul(P, closedLoop)));
+    const change = next.reduce((sum, row, r) => sum + row.reduce((s, v, c) => s + Math.abs(v - P[r][c]), 0), 0);
+    P = next;
+    if (change < 1e-9 * next.reduce((sum, row) => sum + row.reduce((s, v) => s + Math.abs(v), 0), 0)) break;
+  }
+  return K;
+}
+
+// The swing-up's pull of rod 1 towards upright (N·m per rad and per rad/s)
+const SWING_UP_LEAN_KP = 1;
+const SWING_UP_LEAN_KD = 0.5;
+
+const clamp = (value: number, limit: number) => Math.max(-limit, Math.min(limit, value));
+
+// Everything the LQR gains depend on: the parameters the linear model keeps, the weights and the step
+function gainInputs(params: PendulumParams, settings: ControllerSettings, dt: number): number[] {
+  return [
+    params.model === 'ideal' ? 1 : 0,
+    params.gravity,
+    params.rod1Mass,
+    params.rod2Mass,
+    params.rod1Length,
+    params.rod2Length,
+    params.pivotPosition,
+    params.rod2AttachmentPosition,
+    params.rod2PivotPosition,
+    params.joint1Damping,
+    params.joint2Damping,
+    settings.lqrAngleWeight,
+    settings.lqrVelocityWeight,
+    settings.lqrTorqueWeight,
+    dt,
+  ];
+}
+
+export function createBalanceController(): BalanceController {
+  let output: ControllerOutput = { torque: 0, phase: 'swingUp' };
+  let integral = 0;
+  let gains: number[] = [];
+  let gainsFor: number[] = [];
+
+  // Recomputing the Riccati solution is only needed when the model or the weights change.
+  // This runs every substep, so the check is a plain comparison of numbers
+  const lqrGains = (params: PendulumParams, settings: ControllerSettings, dt: number) => {
+    const inputs = gainInputs(params, settings, dt);
+    if (inputs.some((value, i) => value !== gainsFor[i])) {
+      const { A, B } = linearizeUpright(params);
+      const Q = identity(4).map((row, i) =>
+        row.map((v) => v * (i < 2 ? settings.lqrAngleWeight : settings.lqrVelocityWeight))
+      );
+      gains = lqrGain(A, B, Q, settings.lqrTorqueWeight, dt);
+      gainsFor = inputs;
+    }
+    return gains;
+  };
+
+  const balanceTorque = (state: PendulumState, params: PendulumParams, settings: ControllerSettings, dt: number) => {
+    const e1 = wrapAngle(state.theta1 - Math.PI);
+    const e2 = wrapAngle(state.theta2 - Math.PI);
+    if (settings.strategy === 'lqr') {
+      const K = lqrGains(params, settings, dt);
+      return -(K[0] * e1 + K[1] * e2 + K[2] * state.omega1 + K[3] * state.omega2);
+    }
+    // Which way and how hard each lean has to be answered depends on the geometry (with the
+    // ideal rods, rod 2's proportional gain even changes sign), so by default the P and D
+    // terms are the LQR state feedback and PID only adds the integral on top
+    const [kp1, kp2, kd1, kd2] = settings.pidFromLqr
+      ? lqrGains(params, settings, dt).map((k) => -k)
+      : [settings.pidKp1, settings.pidKp2, settings.pidKd1, settings.pidKd2];
+    // Anti-windup: the integral alone can never ask for more than the actuator gives
+    const limit = settings.pidKi1 !== 0 ? settings.maxTorque / Math.abs(settings.pidKi1) : 0;
+    integral = clamp(integral + e1 * dt, limit);
+    return kp1 * e1 + settings.pidKi1 * integral + kd1 * state.omega1 + kp2 * e2 + kd2 * state.omega2;
+  };
+
+  // Pump energy in (or out) through rod 1 until it matches the upright rest state, while a
+  // light PD leans rod 1 towards upright. Pumping alone settles on the right energy but can
+  // then wander for minutes without both rods crossing the capture region together
+  const swingUpTorque = (state: PendulumState, params: PendulumParams, settings: ControllerSettings) => {
+    const target = energy({ ...state, theta1: Math.PI, theta2: Math.PI, omega1: 0, omega2: 0 }, params).total;
+    const error = target - energy(state, params).total;
+    // A kick from rest, since ω1 = 0 would otherwise never start the swing
+    const direction = Math.abs(state.omega1) < 1e-3 ? 1 : state.omega1;
+    const lean = wrapAngle(state.theta1 - Math.PI);
+    return settings.swingUpGain * error * direction - SWING_UP_LEAN_KP * lean - SWING_UP_LEAN_KD * state.omega1;
+  };
+
+  return {
+    update(state, params, settings, dt) {
+      const e1 = Math.abs(wrapAngle(state.theta1 - Math.PI));
+      const e2 = Math.abs(wrapAngle(state.theta2 - Math.PI));
+      const near = e1 < settings.captureAngle && e2 < settings.captureAngle;
+      // Hysteresis: a balancing controller only gives up well outside the capture region
+      const lost = e1 > 2 * settings.captureAngle || e2 > 2 * settings.captureAngle;
+      let phase: ControlPhase = output.phase;
+      if (phase === 'swingUp' && near) phase = 'balance';
+      else if (phase === 'balance' && lost) phase = 'swingUp';
+      if (!settings.swingUp) phase = 'balance';
+      if (phase !== output.phase) integral = 0;
+
+      // Neither the linear model nor the energy pump knows about the constant drive torque,
+      // so it is cancelled directly in both phases
+      const feedforward = -params.rod1MomentumBoost * params.rod1Length;
+      const torque = feedforward + (phase === 'balance'
+        ? balanceTorque(state, params, settings, dt)
+        : swingUpTorque(state, params, settings));
+      output = { torque: clamp(torque, settings.maxTorque), phase };
+      return output;
+    },
+    lastOutput: () => output,
+    gains: () => gains,
+    reset() {
+      output = { torque: 0, phase: 'swingUp' };
+      integral = 0;
+    },
+  };
+}
+
+// advanceFrame() with the controller closing the loop: a fresh torque before every substep
+export function advanceControlledFrame(
+  state: PendulumState,
+  params: PendulumParams,
+  controller: BalanceController,
+  settings: ControllerSettings,
+  simulatedTime: number,
+  accumulator: number,
+  config: FrameStepperConfig
+): FrameStepResult {
+  const plan = planSubsteps(simulatedTime, accumulator, config);
+  let next = state;
+  for (let i = 0; i < plan.substeps; i++) {
+    const { torque } = controller.update(next, params, settings, config.fixedDt);
+    const driven = { ...params, controlTorque: torque };
+    const previous = next;
+    next = step(next, driven, config.fixedDt, config);
+    if (config.contacts) next = resolveContacts(next, driven, config.contacts);
+    if (fellShort(previous, next, config.fixedDt)) return { state: next, accumulator: 0, substeps: i + 1, stalled: true };
+  }
+  return { state: next, accumulator: plan.accumulator, substeps: plan.substeps, stalled: false };
+}
@@ -0,0 +1,45 @@
+import type { PendulumParams, PendulumState } from './types';
+
+// Generalized forces on the absolute angles theta1 and theta2
+export interface GeneralizedForces {
+  q1: number;
+  q2: number;
+}
+
+// Coulomb (dry) friction with a stick/slip threshold
+// Below the stick velocity the torque ramps linearly to zero so the joint can come to rest
+// instead of chattering; above it the full kinetic friction torque opposes the motion
+export function coulombTorque(relativeOmega: number, frictionTorque: number, stickVelocity: number): number {
+  if (frictionTorque === 0) return 0;
+  if (Math.abs(relativeOmega) < stickVelocity) {
+    return -frictionTorque * (relativeOmega / stickVelocity);
+  }
+  return -frictionTorque * Math.sign(relativeOmega);
+}
+
+// Quadratic air drag on a rod spinning about one end:
+// integrating c * (omega * r)^2 * r over the rod length gives c * L^4 / 4 * omega^2
+// (rod 2 uses its absolute angular velocity and ignores the motion of its joint)
+function airDragTorque(omega: number, dragCoefficient: number, length: number): number {
+  return -dragCoefficient * (Math.pow(length, 4) / 4) * omega * Math.abs(omega);
+}
+
+// All energy-loss terms expressed as generalized forces
+// Joint 1 connects the frame to rod 1, joint 2 connects rod 1 to rod 2, so a joint 2 torque
+// acts on rod 2 and reacts equally and oppositely on rod 1
+export function dissipativeForces(state: PendulumState, params: PendulumParams): GeneralizedForces {
+  const { omega1, omega2 } = state;
+  const joint2Omega = omega2 - omega1;
+
+  const joint1Torque =
+    -params.joint1Damping * omega1 +
+    coulombTorque(omega1, params.joint1Friction, params.frictionStickVelocity);
+  const joint2Torque =
+    -params.joint2Damping * joint2Omega +
+    coulombTorque(joint2Omega, params.joint2Friction, params.frictionStickVelocity);
+
+  return {
+    q1: joint1Torque - joint2Torque + airDragTorque(omega1, params.rod1AirDrag, params.rod1Length),
+    q2: joint2Torque + airDragTorque(omega2, params.rod2AirDrag, params.rod2Length),
+  };
+}
@@ -0,0 +1,80 @@
+import { dissipativeForces } from './dissipation';
+import { driveTorque, pivotAcceleration } from './forcing';
+import { massProperties } from './model';
+import type { PendulumParams, PendulumState, StateDerivative } from './types';
+
+// Equations of motion for the double pendulum in absolute angles, from the Lagrangian
+// of two hinged bodies. With mass properties from massProperties() this covers both the
+// rigid-rod (compound) model and the ideal point-mass model:
+//   M(theta) * alpha = bias(theta, omega) + Q
+export function derivatives(state: PendulumState, params: PendulumParams): StateDerivative {
+  const { theta1: t1, theta2: t2, omega1: w1, omega2: w2 } = state;
+  // In the apex's frame a driven pivot adds its acceleration to gravity (reversed)
+  const pivot = pivotAcceleration(params, state.t);
+  const gx = pivot.x;
+  const gy = params.gravity + pivot.y;
+  const { m1, m2, com1, joint2, com2, inertia1, inertia2 } = massProperties(params);
+
+  const c = Math.cos(t1 - t2);
+  const s = Math.sin(t1 - t2);
+
+  // Mass matrix
+  const M11 = inertia1 + m2 * joint2 * joint2;
+  const M12 = m2 * joint2 * com2 * c;
+  const M22 = inertia2 + m2 * com2 * com2;
+
+  // Gravity and velocity coupling
+  const coupling = m2 * joint2 * com2 * s;
+  const bias1 = -coupling * w2 * w2 - (m1 * com1 + m2 * joint2) * (gy * Math.sin(t1) + gx * Math.cos(t1));
+  const bias2 = coupling * w1 * w1 - m2 * com2 * (gy * Math.sin(t2) + gx * Math.cos(t2));
+
+  // Generalized forces: damping, friction and drag plus the drive torque on joint 1
+  const { q1, q2 } = dissipativeForces(state, params);
+  const Q1 = q1 + driveTorque(params, state.t);
+  const Q2 = q2;
+
+  // Solve the 2x2 system
+  const det = M11 * M22 - M12 * M12;
+  const r1 = bias1 + Q1;
+  const r2 = bias2 + Q2;
+
+  return {
+    dTheta1: w1,
+    dTheta2: w2,
+    dOmega1: (M22 * r1 - M12 * r2) / det,
+    dOmega2: (M11 * r2 - M12 * r1) / det,
+  };
+}
+
+// Offset a state along a weighted sum of derivatives: state + h * sum(weights[i] * ks[i])
+export function combine(
+  state: PendulumState,
+  ks: StateDerivative[],
+  weights: number[],
+  h: number
+): PendulumState {
+  let dTheta1 = 0;
+  let dTheta2 = 0;
+  let dOmega1 = 0;
+  let dOmega2 = 0;
+  for (let i = 0; i < ks.length; i++) {
+    const w = weights[i];
+    if (w === 0) continue;
+    dTheta1 += w * ks[i].dTheta1;
+    dTheta2 += w * ks[i].dTheta2;
+    dOmega1 += w * ks[i].dOmega1;
+    dOmega2 += w * ks[i].dOmega2;
+  }
+  return {
+    t: state.t + h,
+    theta1: state.theta1 + h * dTheta1,
+    theta2: state.theta2 + h * dTheta2,
+    omega1: state.omega1 + h * dOmega1,
+    omega2: state.omega2 + h * dOmega2,
+  };
+}
+
+// Offset a state along a single derivative: state + h * k
+export function advance(state: PendulumState, k: StateDerivative, h: number): PendulumState {
+  return combine(state, [k], [1], h);
+}
@@ -0,0 +1,67 @@
+import { isDriven } from './forcing';
+import { massProperties } from './model';
+import type { PendulumParams, PendulumState } from './types';
+
+export interface EnergyBreakdown {
+  kinetic: number;
+  potential: number; // Zero when hanging at rest, so the total is never negative
+  total: number;
+  lagrangian: number; // kinetic - potential
+}
+
+// Kinetic energy, from the same mass matrix used by the equations of motion
+export function kineticEnergy(state: PendulumState, params: PendulumParams): number {
+  const { m2, joint2, com2, inertia1, inertia2 } = massProperties(params);
+  const { theta1, theta2, omega1, omega2 } = state;
+  const M11 = inertia1 + m2 * joint2 * joint2;
+  const M12 = m2 * joint2 * com2 * Math.cos(theta1 - theta2);
+  const M22 = inertia2 + m2 * com2 * com2;
+  return 0.5 * (M11 * omega1 * omega1 + 2 * M12 * omega1 * omega2 + M22 * omega2 * omega2);
+}
+
+// Gravitational potential energy measured from the lowest (hanging) configuration
+export function potentialEnergy(state: PendulumState, params: PendulumParams): number {
+  const { m1, m2, com1, joint2, com2 } = massProperties(params);
+  const a = m1 * com1 + m2 * joint2;
+  const b = m2 * com2;
+  const height = -(a * Math.cos(state.theta1) + b * Math.cos(state.theta2));
+  const lowest = -(Math.abs(a) + Math.abs(b));
+  return params.gravity * (height - lowest);
+}
+
+export function energy(state: PendulumState, params: PendulumParams): EnergyBreakdown {
+  const kinetic = kineticEnergy(state, params);
+  const potential = potentialEnergy(state, params);
+  return {
+    kinetic,
+    potential,
+    total: kinetic + potential,
+    lagrangian: kinetic - potential,
+  };
+}
+
+// Work done by the constant boost torque τ while joint 1 turns from one angle to another. The
+// boost acts like a potential −τ·θ1, so total energy less this work is still conserved
+export function boostWork(params: PendulumParams, fromTheta1: number, toTheta1: number): number {
+  return params.rod1MomentumBoost * params.rod1Length * (toTheta1 - fromTheta1);
+}
+
+// True when nothing but the constant boost adds or removes energy, so total energy less
+// boostWork should stay constant and any drift is integrator error
+export function isConservative(params: PendulumParams): boolean {
+  return (
+    !isDriven({ ...params, rod1MomentumBoost: 0 }) &&
+    params.joint1Damping === 0 &&
+    params.joint2Damping === 0 &&
+    params.joint1Friction === 0 &&
+    params.joint2Friction === 0 &&
+    params.rod1AirDrag === 0 &&
+    params.rod2AirDrag === 0
+  );
+}
+
+// Relative change of total energy against a baseline
+export function relativeDrift(total: number, baseline: number): number {
+  if (baseline === 0) return total === 0 ? 0 : Infinity;
+  return (total - baseline) / Math.abs(baseline);
+}
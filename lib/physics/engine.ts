@@ -0,0 +1,120 @@
+import { resolveContacts, type CollisionConfig } from './collisions';
+import { derivatives } from './dynamics';
+import { INTEGRATORS, type IntegratorName } from './integrators';
+import type { InitialConditions, PendulumParams, PendulumState } from './types';
+
+export { derivatives } from './dynamics';
+
+const DEG_TO_RAD = Math.PI / 180;
+
+export interface StepOptions {
+  integrator: IntegratorName;
+  tolerance: number; // Only used by adaptive integrators
+}
+
+export const DEFAULT_STEP_OPTIONS: StepOptions = {
+  integrator: 'rk4',
+  tolerance: 1e-6,
+};
+
+// The settings panel's initial conditions before anything is changed
+export const DEFAULT_INITIAL_CONDITIONS: InitialConditions = {
+  initialTheta1Deg: 5.73,
+  initialTheta2Deg: 90,
+  initialOmega1: 1,
+};
+
+// Build the starting state from the settings panel initial conditions
+export function createInitialState({ initialTheta1Deg, initialTheta2Deg, initialOmega1 }: InitialConditions): PendulumState {
+  return {
+    t: 0,
+    theta1: initialTheta1Deg * DEG_TO_RAD,
+    theta2: initialTheta2Deg * DEG_TO_RAD,
+    omega1: initialOmega1,
+    omega2: 0,
+  };
+}
+
+// Advance the simulation by dt with the selected integrator (RK4 by default)
+export function step(
+  state: PendulumState,
+  params: PendulumParams,
+  dt: number,
+  options: StepOptions = DEFAULT_STEP_OPTIONS
+): PendulumState {
+  const f = (s: PendulumState) => derivatives(s, params);
+  return INTEGRATORS[options.integrator](state, f, dt, options);
+}
+
+// Run a fixed-step batch simulation and return every state including the initial one
+export function simulate(
+  initial: PendulumState,
+  params: PendulumParams,
+  dt: number,
+  duration: number,
+  options: StepOptions = DEFAULT_STEP_OPTIONS
+): PendulumState[] {
+  const states = [initial];
+  let state = initial;
+  const steps = Math.ceil(duration / dt);
+  for (let i = 0; i < steps; i++) {
+    state = step(state, params, dt, options);
+    states.push(state);
+  }
+  return states;
+}
+
+export interface FrameStepperConfig extends StepOptions {
+  fixedDt: number; // Physics substep size (s of simulated time)
+  maxSubsteps: number; // Upper bound per frame so a slow frame cannot stall the page
+  contacts?: CollisionConfig; // Joint limits and frame collisions, resolved after every substep
+}
+
+export interface FrameStepResult {
+  state: PendulumState;
+  accumulator: number; // Leftover simulated time to carry into the next frame
+  substeps: number;
+  stalled: boolean; // A substep fell short (RK45 ran out of trial steps) and the rest of the frame was dropped
+}
+
+export interface SubstepPlan {
+  substeps: number;
+  accumulator: number; // Leftover simulated time to carry into the next frame
+}
+
+// Fixed-timestep accumulator: converts an arbitrary amount of simulated time
+// into whole physics substeps, so accuracy depends on fixedDt only and not on
+// the display frame rate or the simulation speed slider
+export function planSubsteps(simulatedTime: number, accumulator: number, config: FrameStepperConfig): SubstepPlan {
+  const acc = accumulator + simulatedTime;
+  const wanted = Math.floor(acc / config.fixedDt);
+  const substeps = Math.min(wanted, config.maxSubsteps);
+  // Drop whatever we could not catch up on instead of spiralling further behind
+  const leftover = substeps < wanted ? Math.min(acc - substeps * config.fixedDt, config.fixedDt) : acc - substeps * config.fixedDt;
+  return { substeps, accumulator: leftover };
+}
+
+// True when a step covered less than the time asked of it, which only the adaptive integrator
+// does when its trial steps run out
+export function fellShort(before: PendulumState, after: PendulumState, dt: number): boolean {
+  return after.t - before.t < dt * (1 - 1e-9);
+}
+
+export function advanceFrame(
+  state: PendulumState,
+  params: PendulumParams,
+  simulatedTime: number,
+  accumulator: number,
+  config: FrameStepperConfig
+): FrameStepResult {
+  const plan = planSubsteps(simulatedTime, accumulator, config);
+  let next = state;
+  for (let i = 0; i < plan.substeps; i++) {
+    const previous = next;
+    next = step(next, params, config.fixedDt, config);
+    if (config.contacts) next = resolveContacts(next, params, config.contacts);
+    // Further substeps would stall just the same; drop the rest of the frame instead
+    if (fellShort(previous, next, config.fixedDt)) return { state: next, accumulator: 0, substeps: i + 1, stalled: true };
+  }
+  return { state: next, accumulator: plan.accumulator, substeps: plan.substeps, stalled: false };
+}
@@ -0,0 +1,34 @@
+import { resolveContacts } from './collisions';
+import { planSubsteps, step, type FrameStepperConfig } from './engine';
+import type { PendulumParams, PendulumState } from './types';
+
+// Copies of a starting state whose theta1 differs by multiples of epsilon (radians)
+// Member 0 is the unperturbed state
+export function createEnsemble(base: PendulumState, count: number, epsilon: number): PendulumState[] {
+  return Array.from({ length: count }, (_, i) => ({ ...base, theta1: base.theta1 + i * epsilon }));
+}
+
+export interface EnsembleStepResult {
+  states: PendulumState[];
+  accumulator: number;
+}
+
+// Advance every member by the same number of fixed substeps so they stay in lockstep
+export function advanceEnsemble(
+  states: PendulumState[],
+  params: PendulumParams,
+  simulatedTime: number,
+  accumulator: number,
+  config: FrameStepperConfig
+): EnsembleStepResult {
+  const plan = planSubsteps(simulatedTime, accumulator, config);
+  const next = states.map((state) => {
+    let s = state;
+    for (let i = 0; i < plan.substeps; i++) {
+      s = step(s, params, config.fixedDt, config);
+      if (config.contacts) s = resolveContacts(s, params, config.contacts);
+    }
+    return s;
+  });
+  return { states: next, accumulator: plan.accumulator };
+}
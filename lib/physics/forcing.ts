@@ -0,0 +1,78 @@
+import type { Point2, RodLayout } from './kinematics';
+import type { PendulumParams } from './types';
+
+// External forcing of the pendulum: a torque on joint 1 (constant plus sinusoidal) and
+// sinusoidal motion of the apex itself. A moving apex enters the equations as an extra
+// inertial acceleration on every mass, so vertical driving modulates gravity (the Kapitza
+// pendulum) and horizontal driving pushes the rods sideways
+
+export type PivotDriveAxis = 'horizontal' | 'vertical';
+
+export const PIVOT_DRIVE_OPTIONS: Record<string, PivotDriveAxis> = {
+  Horizontal: 'horizontal',
+  'Vertical (Kapitza)': 'vertical',
+};
+
+// Periodic drive switched off; fills in runs saved before forcing existed
+export const UNDRIVEN = {
+  torqueDriveAmplitude: 0,
+  torqueDriveFrequency: 0,
+  pivotDriveAxis: 'horizontal' as PivotDriveAxis,
+  pivotDriveAmplitude: 0,
+  pivotDriveFrequency: 0,
+};
+
+type ForcingParams = Pick<
+  PendulumParams,
+  | 'rod1Length'
+  | 'rod1MomentumBoost'
+  | 'controlTorque'
+  | 'torqueDriveAmplitude'
+  | 'torqueDriveFrequency'
+  | 'pivotDriveAxis'
+  | 'pivotDriveAmplitude'
+  | 'pivotDriveFrequency'
+>;
+
+// Applied torque on joint 1 at time t; the momentum boost is its constant part and a
+// balancing controller adds its own output on top
+export function driveTorque(params: ForcingParams, t: number): number {
+  const periodic = params.torqueDriveAmplitude * Math.sin(2 * Math.PI * params.torqueDriveFrequency * t);
+  return params.rod1MomentumBoost * params.rod1Length + periodic + (params.controlTorque ?? 0);
+}
+
+// Apex displacement from its resting place, A sin(ωt) along the drive axis
+export function pivotDisplacement(params: ForcingParams, t: number): Point2 {
+  const offset = params.pivotDriveAmplitude * Math.sin(2 * Math.PI * params.pivotDriveFrequency * t);
+  return params.pivotDriveAxis === 'vertical' ? { x: 0, y: offset } : { x: offset, y: 0 };
+}
+
+// Rod layout with the apex moved to where the drive has taken it at time t
+export function drivenLayout(layout: RodLayout, params: ForcingParams, t: number): RodLayout {
+  const { x, y } = pivotDisplacement(params, t);
+  return { ...layout, apex: { x: layout.apex.x + x, y: layout.apex.y + y } };
+}
+
+// First derivative of pivotDisplacement, Aω cos(ωt)
+export function pivotVelocity(params: ForcingParams, t: number): Point2 {
+  const omega = 2 * Math.PI * params.pivotDriveFrequency;
+  const speed = params.pivotDriveAmplitude * omega * Math.cos(omega * t);
+  return params.pivotDriveAxis === 'vertical' ? { x: 0, y: speed } : { x: speed, y: 0 };
+}
+
+// Second derivative of pivotDisplacement, -Aω² sin(ωt)
+export function pivotAcceleration(params: ForcingParams, t: number): Point2 {
+  const omega = 2 * Math.PI * params.pivotDriveFrequency;
+  const { x, y } = pivotDisplacement(params, t);
+  return { x: -omega * omega * x, y: -omega * omega * y };
+}
+
+// True when anything pumps energy in from outside
+export function isDriven(params: ForcingParams): boolean {
+  return (
+    params.rod1MomentumBoost !== 0 ||
+    (params.controlTorque ?? 0) !== 0 ||
+    (params.torqueDriveAmplitude !== 0 && params.torqueDriveFrequency !== 0) ||
+    (params.pivotDriveAmplitude !== 0 && params.pivotDriveFrequency !== 0)
+  );
+}
@@ -0,0 +1,150 @@
+import { advance, combine } from './dynamics';
+import type { PendulumState, StateDerivative } from './types';
+
+export type IntegratorName = 'euler' | 'semiImplicitEuler' | 'rk4' | 'rk45' | 'verlet';
+
+// Right-hand side of the ODE with the parameters already bound
+export type DerivativeFn = (state: PendulumState) => StateDerivative;
+
+export interface IntegratorOptions {
+  tolerance: number; // Error tolerance for adaptive integrators (absolute and relative)
+}
+
+export type Integrator = (
+  state: PendulumState,
+  f: DerivativeFn,
+  dt: number,
+  options: IntegratorOptions
+) => PendulumState;
+
+// Labels shown in the settings panel, keyed by label as Leva expects
+export const INTEGRATOR_OPTIONS: Record<string, IntegratorName> = {
+  'RK4 (classic)': 'rk4',
+  'RK45 (adaptive Dormand–Prince)': 'rk45',
+  'Störmer–Verlet (leapfrog)': 'verlet',
+  'Semi-implicit Euler': 'semiImplicitEuler',
+  'Explicit Euler': 'euler',
+};
+
+// Explicit (forward) Euler: first order, steadily gains energy
+const euler: Integrator = (state, f, dt) => advance(state, f(state), dt);
+
+// Semi-implicit (symplectic) Euler: update velocities first, then angles with the new velocities
+const semiImplicitEuler: Integrator = (state, f, dt) => {
+  const k = f(state);
+  const omega1 = state.omega1 + dt * k.dOmega1;
+  const omega2 = state.omega2 + dt * k.dOmega2;
+  return {
+    t: state.t + dt,
+    theta1: state.theta1 + dt * omega1,
+    theta2: state.theta2 + dt * omega2,
+    omega1,
+    omega2,
+  };
+};
+
+// Classic fourth order Runge-Kutta
+const rk4: Integrator = (state, f, dt) => {
+  const k1 = f(state);
+  const k2 = f(advance(state, k1, 0.5 * dt));
+  const k3 = f(advance(state, k2, 0.5 * dt));
+  const k4 = f(advance(state, k3, dt));
+  return combine(state, [k1, k2, k3, k4], [1 / 6, 1 / 3, 1 / 3, 1 / 6], dt);
+};
+
+// Störmer–Verlet / leapfrog in kick-drift-kick form
+// The double pendulum's accelerations depend on the velocities, so the closing half kick
+// is implicit in omega and solved with a couple of fixed-point iterations
+const VERLET_ITERATIONS = 3;
+
+const verlet: Integrator = (state, f, dt) => {
+  const k1 = f(state);
+  const halfOmega1 = state.omega1 + 0.5 * dt * k1.dOmega1;
+  const halfOmega2 = state.omega2 + 0.5 * dt * k1.dOmega2;
+  let next: PendulumState = {
+    t: state.t + dt,
+    theta1: state.theta1 + dt * halfOmega1,
+    theta2: state.theta2 + dt * halfOmega2,
+    omega1: halfOmega1,
+    omega2: halfOmega2,
+  };
+  for (let i = 0; i < VERLET_ITERATIONS; i++) {
+    const k2 = f(next);
+    next = {
+      ...next,
+      omega1: halfOmega1 + 0.5 * dt * k2.dOmega1,
+      omega2: halfOmega2 + 0.5 * dt * k2.dOmega2,
+    };
+  }
+  return next;
+};
+
+// Dormand–Prince 5(4) Butcher tableau
+const DP_C = [0, 1 / 5, 3 / 10, 4 / 5, 8 / 9, 1, 1];
+const DP_A = [
+  [],
+  [1 / 5],
+  [3 / 40, 9 / 40],
+  [44 / 45, -56 / 15, 32 / 9],
+  [19372 / 6561, -25360 / 2187, 64448 / 6561, -212 / 729],
+  [9017 / 3168, -355 / 33, 46732 / 5247, 49 / 176, -5103 / 18656],
+  [35 / 384, 0, 500 / 1113, 125 / 192, -2187 / 6784, 11 / 84],
+];
+const DP_B5 = [35 / 384, 0, 500 / 1113, 125 / 192, -2187 / 6784, 11 / 84, 0];
+const DP_B4 = [5179 / 57600, 0, 7571 / 16695, 393 / 640, -92097 / 339200, 187 / 2100, 1 / 40];
+
+// Trial steps allowed per call, so a tolerance too tight for the step cannot stall a frame
+const MAX_RK45_ATTEMPTS = 500;
+
+// Scaled error of one Dormand–Prince trial step, <= 1 means the step is accepted
+function rk45Error(state: PendulumState, next: PendulumState, ks: StateDerivative[], h: number, tolerance: number): number {
+  const errorWeights = DP_B5.map((b, i) => b - DP_B4[i]);
+  const err = combine({ ...state, theta1: 0, theta2: 0, omega1: 0, omega2: 0 }, ks, errorWeights, h);
+  const scale = (a: number, b: number) => tolerance + tolerance * Math.max(Math.abs(a), Math.abs(b));
+  return Math.max(
+    Math.abs(err.theta1) / scale(state.theta1, next.theta1),
+    Math.abs(err.theta2) / scale(state.theta2, next.theta2),
+    Math.abs(err.omega1) / scale(state.omega1, next.omega1),
+    Math.abs(err.omega2) / scale(state.omega2, next.omega2)
+  );
+}
+
+// Adaptive Dormand–Prince RK45: covers dt with as many internal steps as the tolerance needs.
+// If the trial steps run out first it returns how far it got, with the time it reached, and
+// leaves the caller to notice that less than dt was covered
+const rk45: Integrator = (state, f, dt, { tolerance }) => {
+  const end = state.t + dt;
+  const minStep = Math.abs(dt) * 1e-6;
+  let current = state;
+  let h = dt;
+
+  for (let attempt = 0; attempt < MAX_RK45_ATTEMPTS && end - current.t > minStep; attempt++) {
+    h = Math.min(h, end - current.t);
+
+    const ks: StateDerivative[] = [];
+    for (let stage = 0; stage < 7; stage++) {
+      const stageState = combine(current, ks, DP_A[stage], h);
+      ks.push(f({ ...stageState, t: current.t + DP_C[stage] * h }));
+    }
+    const next = combine(current, ks, DP_B5, h);
+    const error = rk45Error(current, next, ks, h, tolerance);
+
+    if (error <= 1 || h <= minStep) {
+      current = next;
+    }
+    // Standard step-size controller with safety factor and growth limits
+    const factor = error === 0 ? 5 : Math.min(5, Math.max(0.2, 0.9 * Math.pow(error, -0.2)));
+    h = Math.max(minStep, h * factor);
+  }
+
+  // Snap away the rounding of many small steps, but never claim time that was not covered
+  return end - current.t <= minStep ? { ...current, t: end } : current;
+};
+
+export const INTEGRATORS: Record<IntegratorName, Integrator> = {
+  euler,
+  semiImplicitEuler,
+  rk4,
+  rk45,
+  verlet,
+};
@@ -0,0 +1,55 @@
+// Where the rods sit in the XY plane for a given pair of absolute angles
+// Shared by every renderer so copies of the pendulum line up exactly
+
+export interface Point2 {
+  x: number;
+  y: number;
+}
+
+export interface RodLayout {
+  apex: Point2; // Joint 1, where the A-frame supports meet
+  rod1Length: number;
+  rod2Length: number;
+  pivotPosition: number; // Apex position on rod 1 (0 = rod top, 1 = rod end)
+  rod2AttachmentPosition: number; // Joint 2 on rod 1, measured from rod 1's pivot
+  rod2PivotPosition: number; // Joint 2 on rod 2 (0 = rod top, 1 = rod end)
+}
+
+export interface RodPlacement {
+  rod1Top: Point2; // Where rod 1's mesh starts (pivotPosition along the rod from the apex)
+  rod1Center: Point2;
+  rod1Tip: Point2;
+  joint2: Point2; // Where rod 2 attaches to rod 1
+  rod2Top: Point2;
+  rod2Center: Point2;
+  rod2Tip: Point2;
+}
+
+export function placeRods(theta1: number, theta2: number, layout: RodLayout): RodPlacement {
+  const { apex, rod1Length, rod2Length } = layout;
+
+  // Unit vectors pointing down each rod (angles measured from straight down)
+  const x1 = Math.sin(theta1);
+  const y1 = -Math.cos(theta1);
+  const x2 = Math.sin(theta2);
+  const y2 = -Math.cos(theta2);
+  const along = (from: Point2, distance: number, ux: number, uy: number): Point2 => ({
+    x: from.x + distance * ux,
+    y: from.y + distance * uy,
+  });
+
+  // The rods extend from their top ends; the joints sit partway along them
+  const rod1Top = along(apex, layout.pivotPosition * rod1Length, x1, y1);
+  const joint2 = along(rod1Top, layout.rod2AttachmentPosition * rod1Length, x1, y1);
+  const rod2Top = along(joint2, layout.rod2PivotPosition * rod2Length, x2, y2);
+
+  return {
+    rod1Top,
+    rod1Center: along(rod1Top, 0.5 * rod1Length, x1, y1),
+    rod1Tip: along(rod1Top, rod1Length, x1, y1),
+    joint2,
+    rod2Top,
+    rod2Center: along(rod2Top, 0.5 * rod2Length, x2, y2),
+    rod2Tip: along(rod2Top, rod2Length, x2, y2),
+  };
+}
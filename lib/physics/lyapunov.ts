@@ -0,0 +1,127 @@
+import { step, type StepOptions } from './engine';
+import { wrapAngle } from './phaseSpace';
+import type { PendulumParams, PendulumState } from './types';
+
+// Largest Lyapunov exponent by Benettin's method: follow a shadow trajectory a tiny
+// distance d0 away, and every renormInterval seconds record ln(d / d0) and pull the
+// shadow back to distance d0 along the current separation direction
+
+export interface LyapunovOptions extends StepOptions {
+  dt: number; // Integration step for both trajectories
+  renormInterval: number; // Simulated seconds between renormalisations
+}
+
+export const DEFAULT_LYAPUNOV_OPTIONS: LyapunovOptions = {
+  integrator: 'rk4',
+  tolerance: 1e-8,
+  dt: 0.002,
+  renormInterval: 0.5,
+};
+
+export interface LyapunovState {
+  reference: PendulumState;
+  shadow: PendulumState;
+  d0: number;
+  logSum: number; // Sum of ln(d / d0) over completed renormalisations
+  elapsed: number; // Simulated time covered by completed renormalisations
+  sinceRenorm: number; // Simulated time since the last renormalisation
+  carry: number; // Requested time not yet covered by a whole step
+}
+
+export interface LyapunovSample {
+  t: number;
+  log10Divergence: number; // log10 of the separation the shadow would have reached without renormalisation
+  exponent: number; // Running estimate of the largest exponent (1/s)
+}
+
+// Distance in (θ1, θ2, ω1, ω2) space, with angle differences wrapped
+export function separation(a: PendulumState, b: PendulumState): number {
+  const d1 = wrapAngle(b.theta1 - a.theta1);
+  const d2 = wrapAngle(b.theta2 - a.theta2);
+  const d3 = b.omega1 - a.omega1;
+  const d4 = b.omega2 - a.omega2;
+  return Math.sqrt(d1 * d1 + d2 * d2 + d3 * d3 + d4 * d4);
+}
+
+// Put the shadow at distance d from the reference, along the reference→shadow direction
+function rescaleShadow(reference: PendulumState, shadow: PendulumState, d: number): PendulumState {
+  const current = separation(reference, shadow);
+  const f = current > 0 ? d / current : 0;
+  return {
+    ...shadow,
+    theta1: reference.theta1 + f * wrapAngle(shadow.theta1 - reference.theta1),
+    theta2: reference.theta2 + f * wrapAngle(shadow.theta2 - reference.theta2),
+    omega1: reference.omega1 + f * (shadow.omega1 - reference.omega1),
+    omega2: reference.omega2 + f * (shadow.omega2 - reference.omega2),
+  };
+}
+
+export function createLyapunovState(initial: PendulumState, d0 = 1e-8): LyapunovState {
+  // Perturb every component equally, then scale to exactly d0
+  const offset = { ...initial, theta1: initial.theta1 + 1, theta2: initial.theta2 + 1, omega1: initial.omega1 + 1, omega2: initial.omega2 + 1 };
+  return {
+    reference: initial,
+    shadow: rescaleShadow(initial, offset, d0),
+    d0,
+    logSum: 0,
+    elapsed: 0,
+    sinceRenorm: 0,
+    carry: 0,
+  };
+}
+
+// Total ln(d / d0) growth since the start, counting the current partial interval
+function logGrowth(state: LyapunovState): number {
+  return state.logSum + Math.log(separation(state.reference, state.shadow) / state.d0);
+}
+
+export function lyapunovExponent(state: LyapunovState): number {
+  const total = state.elapsed + state.sinceRenorm;
+  if (total === 0) return 0;
+  return logGrowth(state) / total;
+}
+
+// Advance both trajectories by duration; any remainder smaller than dt carries over
+export function advanceLyapunov(
+  state: LyapunovState,
+  params: PendulumParams,
+  duration: number,
+  options: LyapunovOptions = DEFAULT_LYAPUNOV_OPTIONS
+): LyapunovState {
+  let { reference, shadow, logSum, elapsed, sinceRenorm } = state;
+  const available = state.carry + duration;
+  const steps = Math.floor(available / options.dt);
+
+  for (let i = 0; i < steps; i++) {
+    reference = step(reference, params, options.dt, options);
+    shadow = step(shadow, params, options.dt, options);
+    sinceRenorm += options.dt;
+
+    if (sinceRenorm >= options.renormInterval) {
+      logSum += Math.log(separation(reference, shadow) / state.d0);
+      elapsed += sinceRenorm;
+      sinceRenorm = 0;
+      shadow = rescaleShadow(reference, shadow, state.d0);
+    }
+  }
+
+  return { ...state, reference, shadow, logSum, elapsed, sinceRenorm, carry: available - steps * options.dt };
+}
+
+export function lyapunovSample(state: LyapunovState): LyapunovSample {
+  return {
+    t: state.reference.t,
+    log10Divergence: Math.log10(state.d0) + logGrowth(state) / Math.LN10,
+    exponent: lyapunovExponent(state),
+  };
+}
+
+// Headless estimate over a fixed duration, for batch runs
+export function estimateLyapunov(
+  initial: PendulumState,
+  params: PendulumParams,
+  duration: number,
+  options: LyapunovOptions = DEFAULT_LYAPUNOV_OPTIONS
+): number {
+  return lyapunovExponent(advanceLyapunov(createLyapunovState(initial), params, duration, options));
+}
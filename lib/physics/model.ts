@@ -0,0 +1,55 @@
+import type { PendulumParams } from './types';
+
+// 'rigid' treats each rod as a uniform solid cylinder hung at its rendered pivot,
+// 'ideal' is the textbook double pendulum with point masses at the rod ends
+export type DynamicsModel = 'rigid' | 'ideal';
+
+export const DYNAMICS_MODEL_OPTIONS: Record<string, DynamicsModel> = {
+  'Rigid rods (compound)': 'rigid',
+  'Ideal (point masses)': 'ideal',
+};
+
+// Everything the equations of motion need to know about the mass distribution
+// Distances are signed, measured along the rod from the joint it hangs from
+export interface MassProperties {
+  m1: number;
+  m2: number;
+  com1: number; // Joint 1 (apex) to rod 1 centre of mass
+  joint2: number; // Joint 1 (apex) to joint 2 along rod 1
+  com2: number; // Joint 2 to rod 2 centre of mass
+  inertia1: number; // Moment of inertia of rod 1 about joint 1
+  inertia2: number; // Moment of inertia of rod 2 about its own centre of mass
+}
+
+export function massProperties(params: PendulumParams): MassProperties {
+  const { rod1Mass: m1, rod2Mass: m2, rod1Length: L1, rod2Length: L2 } = params;
+
+  if (params.model === 'ideal') {
+    return {
+      m1,
+      m2,
+      com1: L1,
+      joint2: L1,
+      com2: L2,
+      inertia1: m1 * L1 * L1,
+      inertia2: 0,
+    };
+  }
+
+  // Rod 1 occupies [pivotPosition, pivotPosition + 1] * L1 measured from the apex,
+  // rod 2 occupies [rod2PivotPosition, rod2PivotPosition + 1] * L2 measured from its attachment
+  const com1 = (params.pivotPosition + 0.5) * L1;
+  const joint2 = (params.pivotPosition + params.rod2AttachmentPosition) * L1;
+  const com2 = (params.rod2PivotPosition + 0.5) * L2;
+
+  return {
+    m1,
+    m2,
+    com1,
+    joint2,
+    com2,
+    // Parallel axis theorem on a thin uniform rod (m L² / 12 about its centre)
+    inertia1: (m1 * L1 * L1) / 12 + m1 * com1 * com1,
+    inertia2: (m2 * L2 * L2) / 12,
+  };
+}
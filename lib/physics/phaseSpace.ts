@@ -0,0 +1,31 @@
+import type { PendulumState } from './types';
+
+// Wrap an angle or an angle difference into [-π, π), so phase portraits stay on a single
+// sheet and errors from upright or between runs take the short way round
+export function wrapAngle(angle: number): number {
+  const twoPi = 2 * Math.PI;
+  return ((((angle + Math.PI) % twoPi) + twoPi) % twoPi) - Math.PI;
+}
+
+export interface PoincarePoint {
+  t: number;
+  theta2: number; // Wrapped
+  omega2: number;
+}
+
+// Poincaré section θ1 = 0 with ω1 > 0: returns the (θ2, ω2) point where the
+// segment between two consecutive states crosses the section, or null
+export function poincareCrossing(prev: PendulumState, next: PendulumState): PoincarePoint | null {
+  const a = wrapAngle(prev.theta1);
+  const b = wrapAngle(next.theta1);
+  // Crossing upwards through zero; a jump across ±π is a wrap, not a crossing
+  if (!(a < 0 && b >= 0) || b - a > Math.PI || next.omega1 <= 0) return null;
+
+  // Linear interpolation to the crossing
+  const f = -a / (b - a);
+  return {
+    t: prev.t + f * (next.t - prev.t),
+    theta2: wrapAngle(prev.theta2 + f * (next.theta2 - prev.theta2)),
+    omega2: prev.omega2 + f * (next.omega2 - prev.omega2),
+  };
+}
@@ -0,0 +1,128 @@
+import { pivotDisplacement, pivotVelocity } from './forcing';
+import { massProperties } from './model';
+import type { Point2, RodLayout } from './kinematics';
+import type { PendulumParams, PendulumState } from './types';
+
+// The double pendulum described as two free rigid bodies pinned together, for general
+// purpose engines (Rapier) that integrate bodies and joints instead of angles. Every body
+// frame sits at the rendered rod's centre with its local -y pointing down the rod, so a
+// body at angle θ about z is posed exactly like the analytic rod at θ. Anchors and centres
+// of mass come from the same massProperties() as the equations of motion, so both backends
+// model the same pendulum
+
+export type PhysicsBackend = 'analytic' | 'rapier';
+
+export const PHYSICS_BACKEND_OPTIONS: Record<string, PhysicsBackend> = {
+  'Analytic (Lagrangian)': 'analytic',
+  'Rapier rigid bodies (vs analytic)': 'rapier',
+};
+
+export interface RigidRod {
+  mass: number;
+  centerOfMass: Point2; // In the body frame
+  inertia: number; // About the centre of mass, around z
+}
+
+export interface RigidBodyModel {
+  rod1: RigidRod;
+  rod2: RigidRod;
+  apexAnchor: Point2; // Joint 1 in rod 1's frame
+  joint2OnRod1: Point2; // Joint 2 in rod 1's frame
+  joint2OnRod2: Point2; // Joint 2 in rod 2's frame
+}
+
+export interface BodyPose {
+  position: Point2; // Of the body frame origin
+  angle: number; // Rotation about z, equal to the rod's absolute angle
+  velocity: Point2; // Of the centre of mass, as rigid-body engines expect
+  angularVelocity: number;
+}
+
+// Point masses have no inertia of their own, which an engine reads as a locked rotation,
+// so they get a negligible one instead
+const MIN_INERTIA_FRACTION = 1e-6;
+
+// How far down each rod its body frame sits: rod 1's from the apex, rod 2's from joint 2
+function frameDepths(layout: RodLayout) {
+  return {
+    rod1: (layout.pivotPosition + 0.5) * layout.rod1Length,
+    rod2: (layout.rod2PivotPosition + 0.5) * layout.rod2Length,
+  };
+}
+
+export function rigidBodyModel(params: PendulumParams, layout: RodLayout): RigidBodyModel {
+  const { m1, m2, com1, joint2, com2, inertia1, inertia2 } = massProperties(params);
+  const L1 = layout.rod1Length;
+  const L2 = layout.rod2Length;
+  const { rod1: rod1Origin, rod2: rod2Origin } = frameDepths(layout);
+  const alongRod = (origin: number, distance: number): Point2 => ({ x: 0, y: origin - distance });
+
+  return {
+    rod1: {
+      mass: m1,
+      centerOfMass: alongRod(rod1Origin, com1),
+      inertia: Math.max(inertia1 - m1 * com1 * com1, MIN_INERTIA_FRACTION * m1 * L1 * L1),
+    },
+    rod2: {
+      mass: m2,
+      centerOfMass: alongRod(rod2Origin, com2),
+      inertia: Math.max(inertia2, MIN_INERTIA_FRACTION * m2 * L2 * L2),
+    },
+    apexAnchor: alongRod(rod1Origin, 0),
+    joint2OnRod1: alongRod(rod1Origin, joint2),
+    joint2OnRod2: alongRod(rod2Origin, 0),
+  };
+}
+
+// World poses and velocities of both bodies at a pendulum state, to start a rigid-body
+// simulation in step with the analytic one
+export function bodyPoses(
+  state: PendulumState,
+  params: PendulumParams,
+  layout: RodLayout
+): { rod1: BodyPose; rod2: BodyPose } {
+  const { com1, joint2, com2 } = massProperties(params);
+  const { theta1, theta2, omega1, omega2 } = state;
+  const shift = pivotDisplacement(params, state.t);
+  const drift = pivotVelocity(params, state.t);
+  const apex = { x: layout.apex.x + shift.x, y: layout.apex.y + shift.y };
+  const { rod1: d1, rod2: d2 } = frameDepths(layout);
+
+  // A point d down a rod at angle θ sits at d·(sin θ, -cos θ) from where the rod hangs and
+  // moves at d·ω·(cos θ, sin θ) relative to it
+  const below = (from: Point2, d: number, theta: number): Point2 => ({
+    x: from.x + d * Math.sin(theta),
+    y: from.y - d * Math.cos(theta),
+  });
+  const swinging = (from: Point2, d: number, theta: number, omega: number): Point2 => ({
+    x: from.x + d * omega * Math.cos(theta),
+    y: from.y + d * omega * Math.sin(theta),
+  });
+  const joint = below(apex, joint2, theta1);
+  const jointVelocity = swinging(drift, joint2, theta1, omega1);
+  return {
+    rod1: {
+      position: below(apex, d1, theta1),
+      angle: theta1,
+      velocity: swinging(drift, com1, theta1, omega1),
+      angularVelocity: omega1,
+    },
+    rod2: {
+      position: below(joint, d2, theta2),
+      angle: theta2,
+      velocity: swinging(jointVelocity, com2, theta2, omega2),
+      angularVelocity: omega2,
+    },
+  };
+}
+
+// Rotation about z of a quaternion that only turns about z
+export function quaternionAngle(q: { z: number; w: number }): number {
+  return 2 * Math.atan2(q.z, q.w);
+}
+
+// Continue an angle from its previous value so it counts whole turns like the analytic one
+export function unwrapAngle(previous: number, angle: number): number {
+  const turn = 2 * Math.PI;
+  return angle - turn * Math.round((angle - previous) / turn);
+}
@@ -0,0 +1,189 @@
+import { solveLinear } from './chain';
+import { driveTorque, pivotAcceleration } from './forcing';
+import { massProperties } from './model';
+import type { RodLayout } from './kinematics';
+import type { PendulumParams } from './types';
+
+// Spherical double pendulum: both joints are ball joints, so each rod has two angular
+// degrees of freedom and the motion is fully 3D. Each rod is described by the unit vector
+// pointing down it rather than by angles, which avoids the coordinate singularities any
+// pair of angles has somewhere; |u| = 1 is enforced with Lagrange multipliers.
+// y is up and the planar model lives in the XY plane, so z is the out-of-plane direction.
+// Joint damping and the forcing carry over from the planar parameters; Coulomb
+// friction and air drag are not modelled in 3D
+
+export type Vec3 = [number, number, number];
+
+export interface SphericalState {
+  t: number;
+  u1: Vec3; // Unit vector down rod 1
+  u2: Vec3; // Unit vector down rod 2
+  v1: Vec3; // du1/dt
+  v2: Vec3; // du2/dt
+}
+
+export interface SphericalInitialConditions {
+  theta1: number; // In-plane angles from straight down, as in the planar model (rad)
+  theta2: number;
+  omega1: number; // In-plane angular velocity of rod 1 (rad/s)
+  azimuthalVelocity1: number; // Rotation rate about the vertical axis (rad/s)
+  azimuthalVelocity2: number;
+}
+
+const add = (a: Vec3, b: Vec3, s = 1): Vec3 => [a[0] + s * b[0], a[1] + s * b[1], a[2] + s * b[2]];
+const scale = (a: Vec3, s: number): Vec3 => [a[0] * s, a[1] * s, a[2] * s];
+const dot = (a: Vec3, b: Vec3) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+const cross = (a: Vec3, b: Vec3): Vec3 => [
+  a[1] * b[2] - a[2] * b[1],
+  a[2] * b[0] - a[0] * b[2],
+  a[0] * b[1] - a[1] * b[0],
+];
+const UP: Vec3 = [0, 1, 0];
+const OUT_OF_PLANE: Vec3 = [0, 0, 1];
+
+export function createSphericalState(ic: SphericalInitialConditions): SphericalState {
+  const u1: Vec3 = [Math.sin(ic.theta1), -Math.cos(ic.theta1), 0];
+  const u2: Vec3 = [Math.sin(ic.theta2), -Math.cos(ic.theta2), 0];
+  // In-plane swing is rotation about z, azimuthal motion is rotation about the vertical
+  const v1 = add(scale(cross(OUT_OF_PLANE, u1), ic.omega1), cross(UP, u1), ic.azimuthalVelocity1);
+  const v2 = scale(cross(UP, u2), ic.azimuthalVelocity2);
+  return { t: 0, u1, u2, v1, v2 };
+}
+
+// With T = ½ Σ μ_ij u̇_i·u̇_j (the planar mass matrix without its cosines) and
+// V = g Σ G_i u_i·ŷ, the equations of motion are
+//   Σ_j μ_ij ü_j = F_i + λ_i u_i,   u_i·ü_i = -|u̇_i|²
+// solved together for the accelerations and the constraint multipliers
+function accelerations(state: SphericalState, params: PendulumParams): [Vec3, Vec3] {
+  const { m1, m2, com1, joint2, com2, inertia1, inertia2 } = massProperties(params);
+  const { u1, u2, v1, v2 } = state;
+  const mu11 = inertia1 + m2 * joint2 * joint2;
+  const mu12 = m2 * joint2 * com2;
+  const mu22 = inertia2 + m2 * com2 * com2;
+
+  // Joint torques as vectors: the drive acts in the plane, damping about the rods' angular velocities
+  const w1 = cross(u1, v1);
+  const w2 = cross(u2, v2);
+  const drive = scale(OUT_OF_PLANE, driveTorque(params, state.t));
+  const tau1 = add(drive, w1, -params.joint1Damping);
+  const tau2 = scale(add(w2, w1, -1), -params.joint2Damping);
+
+  // Torque τ on a rod along u does the same work as the force τ × u on its unit vector.
+  // Gravity and the reversed apex acceleration pull on every mass alike
+  const pivot = pivotAcceleration(params, state.t);
+  const g: Vec3 = [pivot.x, params.gravity + pivot.y, 0];
+  const F1 = add(cross(add(tau1, tau2, -1), u1), g, -(m1 * com1 + m2 * joint2));
+  const F2 = add(cross(tau2, u2), g, -m2 * com2);
+
+  // Unknowns [ü1 (3), ü2 (3), λ1, λ2]
+  const A: number[][] = [];
+  const b: number[] = [];
+  for (let k = 0; k < 3; k++) {
+    const row1 = new Array<number>(8).fill(0);
+    row1[k] = mu11;
+    row1[3 + k] = mu12;
+    row1[6] = -u1[k];
+    A.push(row1);
+    b.push(F1[k]);
+  }
+  for (let k = 0; k < 3; k++) {
+    const row2 = new Array<number>(8).fill(0);
+    row2[k] = mu12;
+    row2[3 + k] = mu22;
+    row2[7] = -u2[k];
+    A.push(row2);
+    b.push(F2[k]);
+  }
+  A.push([u1[0], u1[1], u1[2], 0, 0, 0, 0, 0]);
+  b.push(-dot(v1, v1));
+  A.push([0, 0, 0, u2[0], u2[1], u2[2], 0, 0]);
+  b.push(-dot(v2, v2));
+
+  const x = solveLinear(A, b);
+  return [[x[0], x[1], x[2]], [x[3], x[4], x[5]]];
+}
+
+interface SphericalDerivative {
+  du1: Vec3;
+  du2: Vec3;
+  dv1: Vec3;
+  dv2: Vec3;
+}
+
+function sphericalDerivatives(state: SphericalState, params: PendulumParams): SphericalDerivative {
+  const [a1, a2] = accelerations(state, params);
+  return { du1: state.v1, du2: state.v2, dv1: a1, dv2: a2 };
+}
+
+function offset(state: SphericalState, k: SphericalDerivative, h: number): SphericalState {
+  return {
+    t: state.t + h,
+    u1: add(state.u1, k.du1, h),
+    u2: add(state.u2, k.du2, h),
+    v1: add(state.v1, k.dv1, h),
+    v2: add(state.v2, k.dv2, h),
+  };
+}
+
+// Pull a drifted rod direction back onto the unit sphere and its velocity back to tangent
+function project(u: Vec3, v: Vec3): [Vec3, Vec3] {
+  const n = scale(u, 1 / Math.sqrt(dot(u, u)));
+  return [n, add(v, n, -dot(v, n))];
+}
+
+// RK4 step followed by a projection back onto the constraints
+export function stepSpherical(state: SphericalState, params: PendulumParams, dt: number): SphericalState {
+  const f = (s: SphericalState) => sphericalDerivatives(s, params);
+  const k1 = f(state);
+  const k2 = f(offset(state, k1, 0.5 * dt));
+  const k3 = f(offset(state, k2, 0.5 * dt));
+  const k4 = f(offset(state, k3, dt));
+  const sum = (pick: (k: SphericalDerivative) => Vec3): Vec3 =>
+    add(add(pick(k1), pick(k4)), add(pick(k2), pick(k3)), 2);
+  const next = {
+    u1: add(state.u1, sum((k) => k.du1), dt / 6),
+    u2: add(state.u2, sum((k) => k.du2), dt / 6),
+    v1: add(state.v1, sum((k) => k.dv1), dt / 6),
+    v2: add(state.v2, sum((k) => k.dv2), dt / 6),
+  };
+  const [u1, v1] = project(next.u1, next.v1);
+  const [u2, v2] = project(next.u2, next.v2);
+  return { t: state.t + dt, u1, u2, v1, v2 };
+}
+
+// Total energy, zero at the hanging configuration like energy() for the planar model
+export function sphericalEnergy(state: SphericalState, params: PendulumParams): number {
+  const { m1, m2, com1, joint2, com2, inertia1, inertia2 } = massProperties(params);
+  const { u1, u2, v1, v2 } = state;
+  const kinetic =
+    0.5 * (inertia1 + m2 * joint2 * joint2) * dot(v1, v1) +
+    m2 * joint2 * com2 * dot(v1, v2) +
+    0.5 * (inertia2 + m2 * com2 * com2) * dot(v2, v2);
+  const a = m1 * com1 + m2 * joint2;
+  const b = m2 * com2;
+  const potential = params.gravity * (a * u1[1] + b * u2[1] + Math.abs(a) + Math.abs(b));
+  return kinetic + potential;
+}
+
+export interface SphericalRodPlacement {
+  rod1Center: Vec3;
+  rod1Tip: Vec3;
+  joint2: Vec3;
+  rod2Center: Vec3;
+  rod2Tip: Vec3;
+}
+
+// placeRods() along the rod unit vectors instead of in-plane angles, with the apex at z = 0
+export function placeSphericalRods(u1: Vec3, u2: Vec3, layout: RodLayout): SphericalRodPlacement {
+  const { apex, rod1Length, rod2Length } = layout;
+  const rod1Top = add([apex.x, apex.y, 0], u1, layout.pivotPosition * rod1Length);
+  const joint2 = add(rod1Top, u1, layout.rod2AttachmentPosition * rod1Length);
+  const rod2Top = add(joint2, u2, layout.rod2PivotPosition * rod2Length);
+  return {
+    rod1Center: add(rod1Top, u1, 0.5 * rod1Length),
+    rod1Tip: add(rod1Top, u1, rod1Length),
+    joint2,
+    rod2Center: add(rod2Top, u2, 0.5 * rod2Length),
+    rod2Tip: add(rod2Top, u2, rod2Length),
+  };
+}
@@ -0,0 +1,61 @@
+import type { PivotDriveAxis } from './forcing';
+import type { DynamicsModel } from './model';
+
+// Shared types for the headless double pendulum engine.
+// Nothing in lib/physics may import React or Three.js so the same code
+// can drive the browser view and batch runs in Node.
+
+// State vector u = [theta1, theta2, omega1, omega2] plus simulation time
+// Angles can be any value (full 360 degrees), sine/cosine handle periodicity
+export interface PendulumState {
+  t: number; // Simulation time (s)
+  theta1: number; // First pendulum angle (radians)
+  theta2: number; // Second pendulum angle (radians)
+  omega1: number; // First angular velocity (rad/s)
+  omega2: number; // Second angular velocity (rad/s)
+}
+
+// Time derivative of a PendulumState (time itself always advances at 1)
+export interface StateDerivative {
+  dTheta1: number;
+  dTheta2: number;
+  dOmega1: number;
+  dOmega2: number;
+}
+
+// Physical parameters that affect the equations of motion
+export interface PendulumParams {
+  model: DynamicsModel;
+  gravity: number;
+  rod1Mass: number;
+  rod2Mass: number;
+  rod1Length: number;
+  rod2Length: number;
+  // Where the rods hang, as fractions of the rod lengths (only used by the rigid model)
+  pivotPosition: number; // Apex position on rod 1 (0 = rod top, 1 = rod end)
+  rod2AttachmentPosition: number; // Joint 2 on rod 1, measured from the apex
+  rod2PivotPosition: number; // Joint 2 on rod 2 (0 = rod top, 1 = rod end)
+  // Forcing, see forcing.ts; zero amplitudes and boost leave the pendulum undriven
+  rod1MomentumBoost: number; // Constant torque on joint 1 (per unit of rod 1 length)
+  torqueDriveAmplitude: number; // Sinusoidal torque on joint 1 (N·m)
+  torqueDriveFrequency: number; // Hz
+  pivotDriveAxis: PivotDriveAxis; // Direction the apex oscillates in
+  pivotDriveAmplitude: number; // Apex oscillation amplitude (m)
+  pivotDriveFrequency: number; // Hz
+  controlTorque?: number; // Balancing controller torque on joint 1, held for a physics step (N·m)
+  // Energy loss, all zero for an ideal conservative pendulum
+  joint1Damping: number; // Viscous damping at joint 1 (N·m·s/rad)
+  joint2Damping: number; // Viscous damping at joint 2 (N·m·s/rad)
+  joint1Friction: number; // Coulomb friction torque at joint 1 (N·m)
+  joint2Friction: number; // Coulomb friction torque at joint 2 (N·m)
+  frictionStickVelocity: number; // Below this joint speed (rad/s) friction holds the joint (stick)
+  rod1AirDrag: number; // Quadratic air drag coefficient per unit length for rod 1
+  rod2AirDrag: number; // Quadratic air drag coefficient per unit length for rod 2
+}
+
+// Initial conditions as exposed in the settings panel
+export interface InitialConditions {
+  initialTheta1Deg: number;
+  initialTheta2Deg: number;
+  initialOmega1: number;
+}
@@ -0,0 +1,129 @@
+import type { SettingsSnapshot } from './settingsSnapshot';
+
+// Named configurations: a few built in, the rest saved by the user in localStorage
+
+export interface Preset {
+  name: string;
+  settings: SettingsSnapshot; // Leva path → value; paths left out keep their current value
+}
+
+// Shared by the built-ins so a preset never inherits losses or forcing from the previous setup
+const LOSSLESS: SettingsSnapshot = {
+  'Forcing.rod1MomentumBoost': 0,
+  'Forcing.torqueDriveAmplitude': 0,
+  'Forcing.pivotDriveAmplitude': 0,
+  'Control.controlEnabled': false,
+  'Collisions.jointLimits': false,
+  'Collisions.frameCollisions': false,
+  'Damping & Friction.joint1Damping': 0,
+  'Damping & Friction.joint2Damping': 0,
+  'Damping & Friction.joint1Friction': 0,
+  'Damping & Friction.joint2Friction': 0,
+  'Damping & Friction.rod1AirDrag': 0,
+  'Damping & Friction.rod2AirDrag': 0,
+};
+
+// Point masses on rods hung end to end: the textbook double pendulum
+const TEXTBOOK_GEOMETRY: SettingsSnapshot = {
+  'Pendulum Settings.dynamicsModel': 'ideal',
+  'Pendulum Settings.supportHeight': 2.5,
+  'Pendulum Settings.pivotPosition': 0,
+  'Pendulum Settings.rod2AttachmentPosition': 1,
+  'Pendulum Settings.rod2PivotPosition': 0,
+  'Pendulum Settings.gravity': 1,
+};
+
+export const BUILT_IN_PRESETS: Preset[] = [
+  {
+    name: 'Classic equal arms',
+    settings: {
+      ...LOSSLESS,
+      ...TEXTBOOK_GEOMETRY,
+      'Pendulum Settings.rod1Length': 1,
+      'Pendulum Settings.rod2Length': 1,
+      'Pendulum Settings.rod1Mass': 5,
+      'Pendulum Settings.rod2Mass': 5,
+      'Pendulum Settings.initialTheta1Deg': 120,
+      'Pendulum Settings.initialTheta2Deg': -20,
+      'Pendulum Settings.initialOmega1': 0,
+    },
+  },
+  {
+    // Small-angle in-phase normal mode of equal arms and masses: θ2 = √2 · θ1
+    name: 'Near-periodic orbit',
+    settings: {
+      ...LOSSLESS,
+      ...TEXTBOOK_GEOMETRY,
+      'Pendulum Settings.rod1Length': 1,
+      'Pendulum Settings.rod2Length': 1,
+      'Pendulum Settings.rod1Mass': 5,
+      'Pendulum Settings.rod2Mass': 5,
+      'Pendulum Settings.initialTheta1Deg': 10,
+      'Pendulum Settings.initialTheta2Deg': 14.1,
+      'Pendulum Settings.initialOmega1': 0,
+    },
+  },
+  {
+    name: 'Heavy lower bob',
+    settings: {
+      ...LOSSLESS,
+      ...TEXTBOOK_GEOMETRY,
+      'Pendulum Settings.rod1Length': 1.2,
+      'Pendulum Settings.rod2Length': 1,
+      'Pendulum Settings.rod1Mass': 1,
+      'Pendulum Settings.rod2Mass': 15,
+      'Pendulum Settings.initialTheta1Deg': 90,
+      'Pendulum Settings.initialTheta2Deg': 0,
+      'Pendulum Settings.initialOmega1': 0,
+    },
+  },
+  {
+    // A fast enough vertical shake holds both rods upright (dynamic stabilisation)
+    name: 'Kapitza inverted pendulum',
+    settings: {
+      ...LOSSLESS,
+      ...TEXTBOOK_GEOMETRY,
+      'Pendulum Settings.rod1Length': 1,
+      'Pendulum Settings.rod2Length': 1,
+      'Pendulum Settings.rod1Mass': 5,
+      'Pendulum Settings.rod2Mass': 5,
+      'Pendulum Settings.physicsTimeStep': 0.002,
+      'Pendulum Settings.initialTheta1Deg': 175,
+      'Pendulum Settings.initialTheta2Deg': 185,
+      'Pendulum Settings.initialOmega1': 0,
+      'Forcing.pivotDriveAxis': 'vertical',
+      'Forcing.pivotDriveAmplitude': 0.05,
+      'Forcing.pivotDriveFrequency': 15,
+    },
+  },
+];
+
+const STORAGE_KEY = 'pendulum.userPresets';
+
+function isPreset(value: unknown): value is Preset {
+  const preset = value as Preset;
+  return typeof preset?.name === 'string' && typeof preset.settings === 'object' && preset.settings !== null;
+}
+
+// Parse a preset list, dropping anything malformed
+export function parsePresets(text: string): Preset[] {
+  const data: unknown = JSON.parse(text);
+  return Array.isArray(data) ? data.filter(isPreset) : [];
+}
+
+export function loadUserPresets(): Preset[] {
+  try {
+    return parsePresets(localStorage.getItem(STORAGE_KEY) ?? '[]');
+  } catch {
+    return [];
+  }
+}
+
+export function saveUserPresets(presets: Preset[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+}
+
+// Add or replace by name
+export function upsertPreset(presets: Preset[], preset: Preset): Preset[] {
+  return [...presets.filter((p) => p.name !== preset.name), preset];
+}
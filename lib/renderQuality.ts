@@ -0,0 +1,162 @@
+// Rendering quality tiers and the automatic mode that picks one from the frame time. A slow
+// frame is not only ugly: the simulation covers each frame's time in one go, so stutters
+// show up in the motion too
+
+import type { FrameTimeSummary } from './frameBenchmark';
+
+export type QualityTier = 'low' | 'medium' | 'high' | 'ultra';
+
+export type QualityMode = QualityTier | 'auto';
+
+export interface QualitySettings {
+  label: string;
+  maxDpr: number; // Upper bound on the pixel ratio; the device's own is used below it
+  shadows: boolean;
+  shadowMapSize: number;
+  bloom: boolean;
+  ssao: { samples: number; intensity: number } | null;
+  environment: boolean; // HDR environment map for reflections on the metal
+  radialSegments: number; // Around each cylinder
+}
+
+// Lowest first, so stepping down or up is a move along the list
+export const QUALITY_TIERS: QualityTier[] = ['low', 'medium', 'high', 'ultra'];
+
+export const QUALITY_PRESETS: Record<QualityTier, QualitySettings> = {
+  low: {
+    label: 'Low',
+    maxDpr: 1,
+    shadows: false,
+    shadowMapSize: 512,
+    bloom: false,
+    ssao: null,
+    environment: false,
+    radialSegments: 8,
+  },
+  medium: {
+    label: 'Medium',
+    maxDpr: 1,
+    shadows: true,
+    shadowMapSize: 1024,
+    bloom: true,
+    ssao: null,
+    environment: true,
+    radialSegments: 12,
+  },
+  high: {
+    label: 'High',
+    maxDpr: 1.5,
+    shadows: true,
+    shadowMapSize: 2048,
+    bloom: true,
+    ssao: { samples: 16, intensity: 30 },
+    environment: true,
+    radialSegments: 16,
+  },
+  // Every effect the scene has always run, with smoother rods
+  ultra: {
+    label: 'Ultra',
+    maxDpr: 2,
+    shadows: true,
+    shadowMapSize: 2048,
+    bloom: true,
+    ssao: { samples: 31, intensity: 50 },
+    environment: true,
+    radialSegments: 32,
+  },
+};
+
+export const QUALITY_MODE_OPTIONS: Record<string, QualityMode> = {
+  'Auto': 'auto',
+  'Low': 'low',
+  'Medium': 'medium',
+  'High': 'high',
+  'Ultra': 'ultra',
+};
+
+type Listener<T> = (value: T) => void;
+
+export interface AdaptiveQuality {
+  tier(): QualityTier;
+  mode(): QualityMode;
+  // A fixed tier, or 'auto' to let the frame time choose from the current one
+  setMode(mode: QualityMode): void;
+  // Fed about once a second with recent frame times; only acts in auto mode
+  sample(summary: FrameTimeSummary): void;
+  onChange(listener: Listener<QualityTier>): () => void;
+}
+
+// Below 40 fps on average the tier steps down; above 55 fps it may step back up
+const SLOW_MEAN_MS = 1000 / 40;
+const FAST_MEAN_MS = 1000 / 55;
+// Occasional hitches are fine; regular ones are not
+const FAST_P95_MS = 1000 / 30;
+// Consecutive samples needed before acting. Going up is slower than going down so a tier
+// that only just copes is not tried over and over
+const SLOW_SAMPLES = 2;
+const FAST_SAMPLES = 8;
+// Samples ignored after a change, while shaders compile and the frame window refills
+const SETTLE_SAMPLES = 3;
+// A tier that had to be left is not tried again for this many samples
+const RETRY_SAMPLES = 30;
+
+// Auto mode starts one below the top, so a slow machine has less far to fall and a fast one
+// soon earns Ultra
+export function createAdaptiveQuality(initial: QualityTier = 'high'): AdaptiveQuality {
+  let tier = initial;
+  let mode: QualityMode = 'auto';
+  let settling = SETTLE_SAMPLES;
+  let slow = 0;
+  let fast = 0;
+  // Samples left before each tier may be tried again
+  const blocked: Record<QualityTier, number> = { low: 0, medium: 0, high: 0, ultra: 0 };
+  const listeners = new Set<Listener<QualityTier>>();
+
+  const change = (next: QualityTier) => {
+    settling = SETTLE_SAMPLES;
+    slow = 0;
+    fast = 0;
+    if (next === tier) return;
+    tier = next;
+    listeners.forEach((listener) => listener(next));
+  };
+
+  return {
+    tier() {
+      return tier;
+    },
+    mode() {
+      return mode;
+    },
+    setMode(next) {
+      mode = next;
+      change(next === 'auto' ? tier : next);
+    },
+    sample(summary) {
+      for (const t of QUALITY_TIERS) blocked[t] = Math.max(0, blocked[t] - 1);
+      if (mode !== 'auto') return;
+      if (settling > 0) {
+        settling--;
+        return;
+      }
+
+      const index = QUALITY_TIERS.indexOf(tier);
+      slow = summary.meanMs > SLOW_MEAN_MS ? slow + 1 : 0;
+      fast = summary.meanMs < FAST_MEAN_MS && summary.p95Ms < FAST_P95_MS ? fast + 1 : 0;
+
+      if (slow >= SLOW_SAMPLES && index > 0) {
+        blocked[tier] = RETRY_SAMPLES;
+        change(QUALITY_TIERS[index - 1]);
+      } else if (fast >= FAST_SAMPLES && index < QUALITY_TIERS.length - 1) {
+        const up = QUALITY_TIERS[index + 1];
+        if (blocked[up] === 0) change(up);
+      }
+    },
+    onChange(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
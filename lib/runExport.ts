@@ -0,0 +1,89 @@
+import { energy } from './physics/energy';
+import { UNDRIVEN } from './physics/forcing';
+import { placeRods } from './physics/kinematics';
+import type { PendulumParams, PendulumState } from './physics/types';
+import type { RecordedFrame } from './runRecorder';
+import type { SettingsSnapshot } from './settingsSnapshot';
+
+// File formats for getting recorded runs out of the app (and back in)
+
+const RUN_FORMAT = 'double-pendulum-run';
+const RUN_VERSION = 1;
+
+export interface RunDocument {
+  format: typeof RUN_FORMAT;
+  version: number;
+  exportedAt: string;
+  integrator: { name: string; tolerance: number; fixedDt: number };
+  settings: SettingsSnapshot; // Every panel value, keyed by Leva path
+  params: PendulumParams[]; // Distinct parameter sets used during the run
+  frames: (PendulumState & { params: number })[]; // params indexes into the list above
+}
+
+const CSV_COLUMNS = ['t', 'theta1', 'theta2', 'omega1', 'omega2', 'tip_x', 'tip_y', 'energy'];
+
+// Rod 2 tip relative to the top pivot, in the same units as the rod lengths
+function tipPosition(state: PendulumState, params: PendulumParams) {
+  return placeRods(state.theta1, state.theta2, { apex: { x: 0, y: 0 }, ...params }).rod2Tip;
+}
+
+// One row per recorded frame; angles in radians, y up
+export function runToCsv(frames: readonly RecordedFrame[]): string {
+  const rows = frames.map(({ state, params }) => {
+    const tip = tipPosition(state, params);
+    return [state.t, state.theta1, state.theta2, state.omega1, state.omega2, tip.x, tip.y, energy(state, params).total].join(',');
+  });
+  return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+}
+
+export function createRunDocument(frames: readonly RecordedFrame[], settings: SettingsSnapshot): RunDocument {
+  const params: PendulumParams[] = [];
+  const documentFrames = frames.map(({ state, params: frameParams }) => {
+    // The recorder shares one params object across frames until it changes
+    let index = params.indexOf(frameParams);
+    if (index < 0) index = params.push(frameParams) - 1;
+    return { ...state, params: index };
+  });
+
+  return {
+    format: RUN_FORMAT,
+    version: RUN_VERSION,
+    exportedAt: new Date().toISOString(),
+    integrator: {
+      name: String(settings['Pendulum Settings.integrator']),
+      tolerance: Number(settings['Pendulum Settings.integratorTolerance']),
+      fixedDt: Number(settings['Pendulum Settings.physicsTimeStep']),
+    },
+    settings,
+    params,
+    frames: documentFrames,
+  };
+}
+
+// Validate an imported file; throws with a readable message when it is not a run export
+export function parseRunDocument(text: string): RunDocument {
+  let data: Partial<RunDocument>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('the file is not valid JSON');
+  }
+  if (data?.format !== RUN_FORMAT) throw new Error('the file is not a pendulum run export');
+  if (typeof data.version !== 'number' || data.version > RUN_VERSION) {
+    throw new Error(`unsupported version ${data.version}`);
+  }
+  if (!Array.isArray(data.params) || !Array.isArray(data.frames) || data.frames.length === 0) {
+    throw new Error('the file has no recorded frames');
+  }
+  const params: PendulumParams[] = data.params.map((saved) => ({ ...UNDRIVEN, ...saved }));
+  const valid = data.frames.every((frame) =>
+    ['t', 'theta1', 'theta2', 'omega1', 'omega2'].every((key) => Number.isFinite(frame[key as keyof PendulumState])) &&
+    params[frame.params] !== undefined
+  );
+  if (!valid) throw new Error('some frames are incomplete');
+  return { ...data, params } as RunDocument;
+}
+
+export function documentFrames(doc: RunDocument): RecordedFrame[] {
+  return doc.frames.map(({ params, ...state }) => ({ state, params: doc.params[params] }));
+}
@@ -0,0 +1,180 @@
+import type { PendulumParams, PendulumState } from './physics/types';
+
+// One frame of a recorded run: the state and the parameters it was stepped with
+export interface RecordedFrame {
+  state: PendulumState;
+  params: PendulumParams;
+}
+
+export type PlaybackDirection = 1 | -1;
+
+export interface PlaybackStatus {
+  replaying: boolean;
+  playing: boolean;
+  direction: PlaybackDirection;
+}
+
+type Listener<T> = (value: T) => void;
+
+// Records the live run frame by frame and plays it back. While replaying the live
+// simulation is frozen; resuming continues it from the frame on screen
+export interface RunRecorder {
+  frames(): readonly RecordedFrame[];
+  record(state: PendulumState, params: PendulumParams): void;
+  clear(): void;
+  // Replace the recording with an imported run and pause on its last frame
+  load(frames: readonly RecordedFrame[]): void;
+
+  status(): PlaybackStatus;
+  onStatusChange(listener: Listener<PlaybackStatus>): () => void;
+  currentFrame(): RecordedFrame | null;
+  currentIndex(): number;
+
+  // Freeze the live run and pause on the latest frame
+  enterReplay(): void;
+  play(direction: PlaybackDirection): void;
+  pause(): void;
+  seek(t: number): void;
+  stepFrame(direction: PlaybackDirection): void;
+  // Advance the playback cursor by some simulated time and return the frame to show
+  tick(simulatedTime: number): RecordedFrame | null;
+
+  // Leave replay, discarding frames after the cursor, and continue the run from there
+  resume(): void;
+  onResume(listener: Listener<PendulumState>): () => void;
+}
+
+// About ten minutes at 60 fps; the oldest frames are dropped beyond this
+const MAX_FRAMES = 36000;
+
+function sameParams(a: PendulumParams, b: PendulumParams): boolean {
+  return (Object.keys(a) as (keyof PendulumParams)[]).every((key) => a[key] === b[key]);
+}
+
+export function createRunRecorder(): RunRecorder {
+  let frames: RecordedFrame[] = [];
+  let lastParams: PendulumParams | null = null;
+  let cursor = 0; // Index of the frame on screen while replaying
+  let cursorTime = 0; // Playback time, which falls between recorded frames
+  let status: PlaybackStatus = { replaying: false, playing: false, direction: 1 };
+
+  const statusListeners = new Set<Listener<PlaybackStatus>>();
+  const resumeListeners = new Set<Listener<PendulumState>>();
+
+  const setStatus = (next: Partial<PlaybackStatus>) => {
+    status = { ...status, ...next };
+    statusListeners.forEach((listener) => listener(status));
+  };
+
+  // Last frame at or before time t
+  const indexAt = (t: number) => {
+    let lo = 0;
+    let hi = frames.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (frames[mid].state.t <= t) lo = mid;
+      else hi = mid - 1;
+    }
+    return lo;
+  };
+
+  const moveTo = (index: number) => {
+    cursor = Math.max(0, Math.min(frames.length - 1, index));
+    cursorTime = frames[cursor]?.state.t ?? 0;
+  };
+
+  const recorder: RunRecorder = {
+    frames: () => frames,
+    record(state, params) {
+      if (status.replaying) return;
+      // Parameters rarely change, so consecutive frames share one object
+      if (!lastParams || !sameParams(lastParams, params)) lastParams = { ...params };
+      frames.push({ state, params: lastParams });
+      if (frames.length > MAX_FRAMES + 1000) frames = frames.slice(frames.length - MAX_FRAMES);
+    },
+    clear() {
+      frames = [];
+      lastParams = null;
+      moveTo(0);
+      if (status.replaying || status.playing) setStatus({ replaying: false, playing: false });
+    },
+    load(loaded) {
+      if (loaded.length === 0) return;
+      frames = [...loaded];
+      lastParams = frames[frames.length - 1].params;
+      moveTo(frames.length - 1);
+      setStatus({ replaying: true, playing: false });
+    },
+
+    status: () => status,
+    onStatusChange(listener) {
+      statusListeners.add(listener);
+      return () => {
+        statusListeners.delete(listener);
+      };
+    },
+    currentFrame: () => frames[cursor] ?? null,
+    currentIndex: () => cursor,
+
+    enterReplay() {
+      if (status.replaying || frames.length === 0) return;
+      moveTo(frames.length - 1);
+      setStatus({ replaying: true, playing: false });
+    },
+    play(direction) {
+      recorder.enterReplay();
+      if (!status.replaying) return;
+      // Playing from an end in the direction it points would stop at once, so wrap around
+      if (direction === 1 && cursor === frames.length - 1) moveTo(0);
+      if (direction === -1 && cursor === 0) moveTo(frames.length - 1);
+      setStatus({ playing: true, direction });
+    },
+    pause() {
+      if (status.playing) setStatus({ playing: false });
+    },
+    seek(t) {
+      recorder.enterReplay();
+      if (!status.replaying) return;
+      moveTo(indexAt(t));
+      cursorTime = t;
+    },
+    stepFrame(direction) {
+      recorder.enterReplay();
+      if (!status.replaying) return;
+      recorder.pause();
+      moveTo(cursor + direction);
+    },
+    tick(simulatedTime) {
+      if (!status.replaying) return null;
+      if (status.playing && frames.length > 0) {
+        cursorTime += simulatedTime * status.direction;
+        const start = frames[0].state.t;
+        const end = frames[frames.length - 1].state.t;
+        if (cursorTime >= end || cursorTime <= start) {
+          moveTo(cursorTime >= end ? frames.length - 1 : 0);
+          setStatus({ playing: false });
+        } else {
+          cursor = indexAt(cursorTime);
+        }
+      }
+      return frames[cursor] ?? null;
+    },
+
+    resume() {
+      if (!status.replaying) return;
+      const frame = frames[cursor];
+      frames = frames.slice(0, cursor + 1);
+      lastParams = frame?.params ?? null;
+      setStatus({ replaying: false, playing: false });
+      if (frame) resumeListeners.forEach((listener) => listener(frame.state));
+    },
+    onResume(listener) {
+      resumeListeners.add(listener);
+      return () => {
+        resumeListeners.delete(listener);
+      };
+    },
+  };
+
+  return recorder;
+}
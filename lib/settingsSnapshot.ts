@@ -0,0 +1,47 @@
+import { levaStore } from 'leva';
+import type { InitialConditions } from './physics/types';
+
+// Leva folders that fully describe a run: geometry, masses, initial conditions, integrator and losses
+export const SETTINGS_FOLDERS = ['Pendulum Settings', 'Damping & Friction', 'Forcing', 'Control', 'Collisions', 'Chain', 'Spherical 3D'];
+
+// Values keyed by Leva path, e.g. { 'Pendulum Settings.gravity': 1 }
+export type SettingsSnapshot = Record<string, unknown>;
+
+function isSettingsPath(path: string) {
+  return SETTINGS_FOLDERS.some((folder) => path.startsWith(`${folder}.`));
+}
+
+// Current value of every input in the settings folders (buttons have no value and are skipped)
+export function readSettings(): SettingsSnapshot {
+  const snapshot: SettingsSnapshot = {};
+  for (const [path, item] of Object.entries(levaStore.getData())) {
+    if (isSettingsPath(path) && 'value' in item) snapshot[path] = item.value;
+  }
+  return snapshot;
+}
+
+// Inputs that have moved folder, by their old path, so older presets and exported runs still load
+const MOVED_SETTINGS: Record<string, string> = {
+  'Pendulum Settings.rod1MomentumBoost': 'Forcing.rod1MomentumBoost',
+};
+
+// Push a snapshot back into the panel, ignoring paths this version does not have
+export function applySettings(snapshot: SettingsSnapshot) {
+  const known = readSettings();
+  const values: SettingsSnapshot = {};
+  for (const [oldPath, value] of Object.entries(snapshot)) {
+    // A snapshot that has the new path as well is newer than the move and keeps that value
+    const path = oldPath in MOVED_SETTINGS && !(MOVED_SETTINGS[oldPath] in snapshot) ? MOVED_SETTINGS[oldPath] : oldPath;
+    if (path in known && typeof value === typeof known[path]) values[path] = value;
+  }
+  levaStore.set(values, false);
+}
+
+// Initial conditions as currently set in the panel
+export function readInitialConditions(): InitialConditions {
+  return {
+    initialTheta1Deg: levaStore.get('Pendulum Settings.initialTheta1Deg'),
+    initialTheta2Deg: levaStore.get('Pendulum Settings.initialTheta2Deg'),
+    initialOmega1: levaStore.get('Pendulum Settings.initialOmega1'),
+  };
+}
@@ -0,0 +1,43 @@
+import type { SettingsSnapshot } from './settingsSnapshot';
+
+// Settings travel in the URL hash as readable key=value pairs, e.g.
+// #gravity=1&rod1Length=1.9&initialTheta2Deg=90, keyed by the Leva input name without its folder
+
+function inputName(path: string) {
+  return path.slice(path.lastIndexOf('.') + 1);
+}
+
+export function encodeSettings(snapshot: SettingsSnapshot): string {
+  const query = new URLSearchParams();
+  for (const [path, value] of Object.entries(snapshot)) {
+    if (typeof value === 'number' || typeof value === 'string' || typeof value === 'boolean') {
+      query.set(inputName(path), String(value));
+    }
+  }
+  return query.toString();
+}
+
+// Values from a hash, typed like the current settings; null when the hash holds none
+export function decodeSettings(hash: string, current: SettingsSnapshot): SettingsSnapshot | null {
+  const query = new URLSearchParams(hash.replace(/^#/, ''));
+  const snapshot: SettingsSnapshot = {};
+  for (const [path, currentValue] of Object.entries(current)) {
+    const raw = query.get(inputName(path));
+    if (raw === null) continue;
+    if (typeof currentValue === 'number') {
+      const value = Number(raw);
+      if (Number.isFinite(value)) snapshot[path] = value;
+    } else if (typeof currentValue === 'boolean') {
+      snapshot[path] = raw === 'true';
+    } else {
+      snapshot[path] = raw;
+    }
+  }
+  return Object.keys(snapshot).length > 0 ? snapshot : null;
+}
+
+export function shareUrl(snapshot: SettingsSnapshot): string {
+  const url = new URL(window.location.href);
+  url.hash = encodeSettings(snapshot);
+  return url.toString();
+}
@@ -0,0 +1,141 @@
+import type { FrameStepperConfig } from './physics/engine';
+import type { PendulumParams, PendulumState } from './physics/types';
+
+// One published frame of the live simulation
+export interface SimulationSample {
+  state: PendulumState;
+  params: PendulumParams;
+  stepConfig: FrameStepperConfig; // Integrator and physics step the frame was simulated with
+}
+
+// The same moment simulated by the analytic solver and by the Rapier rigid-body backend
+export interface BackendComparison {
+  analytic: PendulumState;
+  rapier: PendulumState;
+  params: PendulumParams;
+}
+
+// Both pendulums of an A/B comparison at the same moment, each with its own parameters
+export interface ABSample {
+  a: SimulationSample;
+  b: SimulationSample;
+}
+
+// Which pendulum is on screen. Samples are only published for the planar one; the chain and
+// the spherical pendulum have state the planar readouts cannot show
+export type SimulationModel = 'planar' | 'chain' | 'spherical';
+
+type Listener<T> = (value: T) => void;
+
+// Streams the live simulation out of the Canvas to HTML panels without going through React state
+export interface SimulationFeed {
+  publish(sample: SimulationSample): void;
+  subscribe(listener: Listener<SimulationSample>): () => void;
+  publishReset(state: PendulumState): void;
+  onReset(listener: Listener<PendulumState>): () => void;
+  // Ask the live simulation to jump to a state (it answers with a reset)
+  requestState(state: PendulumState): void;
+  onStateRequest(listener: Listener<PendulumState>): () => void;
+  // Rapier backend checked against the analytic solver; null once the backend is switched off
+  publishComparison(comparison: BackendComparison | null): void;
+  onComparison(listener: Listener<BackendComparison | null>): () => void;
+  // Why the Rapier backend is selected but not running, null when there is nothing to explain
+  setRapierBlock(reason: string | null): void;
+  rapierBlock(): string | null;
+  onRapierBlockChange(listener: Listener<string | null>): () => void;
+  // A/B comparison pendulum stepped alongside the live one; null once comparison is switched off
+  publishAB(sample: ABSample | null): void;
+  onAB(listener: Listener<ABSample | null>): () => void;
+  // The model on screen, kept so panels opened later know it too
+  setModel(model: SimulationModel): void;
+  model(): SimulationModel;
+  onModelChange(listener: Listener<SimulationModel>): () => void;
+}
+
+export function createSimulationFeed(): SimulationFeed {
+  const sampleListeners = new Set<Listener<SimulationSample>>();
+  const resetListeners = new Set<Listener<PendulumState>>();
+  const stateRequestListeners = new Set<Listener<PendulumState>>();
+  const comparisonListeners = new Set<Listener<BackendComparison | null>>();
+  const abListeners = new Set<Listener<ABSample | null>>();
+  const rapierBlockListeners = new Set<Listener<string | null>>();
+  const modelListeners = new Set<Listener<SimulationModel>>();
+  let currentRapierBlock: string | null = null;
+  let currentModel: SimulationModel = 'planar';
+
+  return {
+    publish(sample) {
+      sampleListeners.forEach((listener) => listener(sample));
+    },
+    subscribe(listener) {
+      sampleListeners.add(listener);
+      return () => {
+        sampleListeners.delete(listener);
+      };
+    },
+    publishReset(state) {
+      resetListeners.forEach((listener) => listener(state));
+    },
+    onReset(listener) {
+      resetListeners.add(listener);
+      return () => {
+        resetListeners.delete(listener);
+      };
+    },
+    requestState(state) {
+      stateRequestListeners.forEach((listener) => listener(state));
+    },
+    onStateRequest(listener) {
+      stateRequestListeners.add(listener);
+      return () => {
+        stateRequestListeners.delete(listener);
+      };
+    },
+    publishComparison(comparison) {
+      comparisonListeners.forEach((listener) => listener(comparison));
+    },
+    onComparison(listener) {
+      comparisonListeners.add(listener);
+      return () => {
+        comparisonListeners.delete(listener);
+      };
+    },
+    setRapierBlock(reason) {
+      if (reason === currentRapierBlock) return;
+      currentRapierBlock = reason;
+      rapierBlockListeners.forEach((listener) => listener(reason));
+    },
+    rapierBlock() {
+      return currentRapierBlock;
+    },
+    onRapierBlockChange(listener) {
+      rapierBlockListeners.add(listener);
+      return () => {
+        rapierBlockListeners.delete(listener);
+      };
+    },
+    publishAB(sample) {
+      abListeners.forEach((listener) => listener(sample));
+    },
+    onAB(listener) {
+      abListeners.add(listener);
+      return () => {
+        abListeners.delete(listener);
+      };
+    },
+    setModel(model) {
+      if (model === currentModel) return;
+      currentModel = model;
+      modelListeners.forEach((listener) => listener(model));
+    },
+    model() {
+      return currentModel;
+    },
+    onModelChange(listener) {
+      modelListeners.add(listener);
+      return () => {
+        modelListeners.delete(listener);
+      };
+    },
+  };
+}
@@ -0,0 +1,56 @@
+import type { PendulumState } from './physics/types';
+
+type Listener = (state: PendulumState) => void;
+
+// The live pendulum state, kept outside React. The frame loop reads it and writes it back
+// every frame and poses the Three.js objects itself, so nothing re-renders at display rate;
+// HTML panels subscribe at whatever rate their readouts need
+export interface SimulationStore {
+  get(): PendulumState;
+  set(state: PendulumState): void;
+  // The listener hears the latest state at most once every intervalMs. A write that lands
+  // inside the interval is delivered when it ends, so the last state is never missed
+  subscribe(listener: Listener, intervalMs?: number): () => void;
+}
+
+interface Subscription {
+  listener: Listener;
+  intervalMs: number;
+  lastDelivery: number;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+export function createSimulationStore(initial: PendulumState): SimulationStore {
+  let current = initial;
+  const subscriptions = new Set<Subscription>();
+
+  const deliver = (subscription: Subscription) => {
+    subscription.timer = null;
+    subscription.lastDelivery = performance.now();
+    subscription.listener(current);
+  };
+
+  return {
+    get() {
+      return current;
+    },
+    set(state) {
+      current = state;
+      subscriptions.forEach((subscription) => {
+        // Already waiting to deliver; it will pick up this state
+        if (subscription.timer !== null) return;
+        const wait = subscription.intervalMs - (performance.now() - subscription.lastDelivery);
+        if (wait <= 0) deliver(subscription);
+        else subscription.timer = setTimeout(() => deliver(subscription), wait);
+      });
+    },
+    subscribe(listener, intervalMs = 0) {
+      const subscription: Subscription = { listener, intervalMs, lastDelivery: -Infinity, timer: null };
+      subscriptions.add(subscription);
+      return () => {
+        if (subscription.timer !== null) clearTimeout(subscription.timer);
+        subscriptions.delete(subscription);
+      };
+    },
+  };
+}
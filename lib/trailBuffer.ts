@@ -0,0 +1,50 @@
+// Fixed-capacity ring buffer of trail points with one scalar per point (speed, energy, ...)
+// Kept free of Three.js so the Canvas side decides how to draw it
+export interface TrailBuffer {
+  capacity: number;
+  count: number;
+  push(x: number, y: number, z: number, value: number): void;
+  clear(): void;
+  resize(capacity: number): void;
+  // Visit points from oldest to newest
+  forEach(visit: (x: number, y: number, z: number, value: number, index: number) => void): void;
+}
+
+export function createTrailBuffer(initialCapacity: number): TrailBuffer {
+  let positions = new Float32Array(initialCapacity * 3);
+  let values = new Float32Array(initialCapacity);
+  let head = 0; // Next slot to write
+
+  const buffer: TrailBuffer = {
+    capacity: initialCapacity,
+    count: 0,
+    push(x, y, z, value) {
+      positions[head * 3] = x;
+      positions[head * 3 + 1] = y;
+      positions[head * 3 + 2] = z;
+      values[head] = value;
+      head = (head + 1) % buffer.capacity;
+      buffer.count = Math.min(buffer.count + 1, buffer.capacity);
+    },
+    clear() {
+      head = 0;
+      buffer.count = 0;
+    },
+    resize(capacity) {
+      if (capacity === buffer.capacity) return;
+      positions = new Float32Array(capacity * 3);
+      values = new Float32Array(capacity);
+      buffer.capacity = capacity;
+      buffer.clear();
+    },
+    forEach(visit) {
+      const start = (head - buffer.count + buffer.capacity) % buffer.capacity;
+      for (let i = 0; i < buffer.count; i++) {
+        const slot = (start + i) % buffer.capacity;
+        visit(positions[slot * 3], positions[slot * 3 + 1], positions[slot * 3 + 2], values[slot], i);
+      }
+    },
+  };
+
+  return buffer;
+}
@@ -0,0 +1,21 @@
+// gifenc ships without type declarations; this covers the parts used for GIF export
+declare module 'gifenc' {
+  export type Palette = number[][];
+
+  export interface WriteFrameOptions {
+    palette?: Palette;
+    delay?: number; // Milliseconds
+    repeat?: number; // 0 loops forever, -1 plays once
+    transparent?: boolean;
+  }
+
+  export interface Encoder {
+    writeFrame(index: Uint8Array, width: number, height: number, options?: WriteFrameOptions): void;
+    finish(): void;
+    bytes(): Uint8Array;
+  }
+
+  export function GIFEncoder(): Encoder;
+  export function quantize(rgba: Uint8Array | Uint8ClampedArray, maxColors: number): Palette;
+  export function applyPalette(rgba: Uint8Array | Uint8ClampedArray, palette: Palette): Uint8Array;
+}